@@ -1,5 +1,7 @@
-import { useMemo, useState } from "react";
-import { compileWebSpec } from "@webspec/compiler";
+import { useMemo, useRef, useState } from "react";
+import { analyzeWebSpec, compileWebSpec } from "@webspec/compiler";
+import { buildDecisionTree, renderDecisionTree } from "@webspec/shared";
+import type { DecisionRenderFormat, SourceRange } from "@webspec/shared";
 import { REGISTRY, TARGETS } from "./registry";
 import { SAMPLE_OK, SAMPLE_BAD } from "./sampleSpecs";
 
@@ -19,6 +21,9 @@ export default function App() {
   const [specText, setSpecText] = useState(SAMPLE_OK);
   const [selectedTarget, setSelectedTarget] = useState<string>(TARGETS[0]?.id ?? "");
   const [, setMode] = useState<"ok" | "bad">("ok");
+  const [tab, setTab] = useState("spec");
+  const [decisionFormat, setDecisionFormat] = useState<DecisionRenderFormat>("md");
+  const specRef = useRef<HTMLTextAreaElement>(null);
 
   // Keep spec target in sync with dropdown (simple UX)
   const normalizedSpecText = useMemo(() => {
@@ -31,8 +36,29 @@ export default function App() {
     return compileWebSpec({ sourceText: normalizedSpecText, registry: REGISTRY });
   }, [normalizedSpecText]);
 
+  // The spec's inline decisions, rendered for review; a spec that does not parse (or a broken tree) renders nothing
+  const decisionsText = useMemo(() => {
+    const { spec } = analyzeWebSpec({ sourceText: normalizedSpecText, registry: REGISTRY });
+    try {
+      return renderDecisionTree(buildDecisionTree(spec?.lang === "webspec/v0.2" ? (spec.decisions ?? []) : []), decisionFormat);
+    } catch (e) {
+      return `Decision tree invalid: ${e instanceof Error ? e.message : String(e)}`;
+    }
+  }, [normalizedSpecText, decisionFormat]);
+
   const errorCount = result.diagnostics.filter((d) => d.severity === "error").length;
 
+  // Jump to the spec tab and select the offending YAML span
+  function highlight(range: SourceRange) {
+    setTab("spec");
+    requestAnimationFrame(() => {
+      const el = specRef.current;
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(range.start.offset, Math.max(range.end.offset, range.start.offset + 1));
+    });
+  }
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <div className="mx-auto max-w-6xl p-6 space-y-6">
@@ -84,11 +110,12 @@ export default function App() {
           </Button>
         </div>
 
-        <Tabs defaultValue="spec">
+        <Tabs value={tab} onValueChange={setTab}>
           <TabsList>
             <TabsTrigger value="spec">Spec</TabsTrigger>
             <TabsTrigger value="diagnostics">Diagnostics</TabsTrigger>
             <TabsTrigger value="plan">Plan IR</TabsTrigger>
+            <TabsTrigger value="decisions">Decisions</TabsTrigger>
           </TabsList>
 
           <TabsContent value="spec" className="mt-4">
@@ -97,6 +124,7 @@ export default function App() {
                 Edit YAML below. The compiler runs live; it will STOP if target/macros/effects/proofs fail.
               </div>
               <Textarea
+                ref={specRef}
                 className="min-h-[360px] font-mono text-xs"
                 value={normalizedSpecText}
                 onChange={(e) => setSpecText(e.target.value)}
@@ -107,7 +135,23 @@ export default function App() {
           <TabsContent value="diagnostics" className="mt-4">
             <Card className="p-4">
               <ScrollArea className="h-[420px] rounded-md border p-3">
-                <pre className="text-xs">{pretty(result.diagnostics)}</pre>
+                <ul className="space-y-2 text-xs">
+                  {result.diagnostics.map((d, i) => (
+                    <li key={i} className="flex gap-2 items-start">
+                      <Badge variant={d.severity === "error" ? "destructive" : "secondary"}>{d.code}</Badge>
+                      <div className="flex-1 space-y-1">
+                        <div>{d.message}</div>
+                        {d.hint ? <div className="text-muted-foreground">{d.hint}</div> : null}
+                      </div>
+                      {d.range ? (
+                        <Button variant="outline" size="sm" onClick={() => highlight(d.range!)}>
+                          {d.range.start.line}:{d.range.start.col}
+                        </Button>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+                <pre className="text-xs mt-4">{pretty(result.diagnostics)}</pre>
               </ScrollArea>
             </Card>
           </TabsContent>
@@ -119,6 +163,30 @@ export default function App() {
               </ScrollArea>
             </Card>
           </TabsContent>
+
+          <TabsContent value="decisions" className="mt-4">
+            <Card className="p-4 space-y-3">
+              <div className="flex gap-2 items-center">
+                <Button variant={decisionFormat === "md" ? "default" : "outline"} size="sm" onClick={() => setDecisionFormat("md")}>
+                  Markdown
+                </Button>
+                <Button
+                  variant={decisionFormat === "mermaid" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDecisionFormat("mermaid")}
+                >
+                  Mermaid
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => navigator.clipboard?.writeText(decisionsText)}>
+                  Copy
+                </Button>
+                <span className="text-xs text-muted-foreground">Paste into a PR description to review decisions.</span>
+              </div>
+              <ScrollArea className="h-[420px] rounded-md border p-3">
+                <pre className="text-xs whitespace-pre-wrap">{decisionsText}</pre>
+              </ScrollArea>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         <footer className="text-xs text-muted-foreground">
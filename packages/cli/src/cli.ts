@@ -1,11 +1,42 @@
 #!/usr/bin/env node
 import { Command } from "commander";
-import { promises as fs } from "node:fs";
+import { promises as fs, readFileSync } from "node:fs";
 import path from "node:path";
-import { compileWebSpec } from "@webspec/compiler";
-import { buildDecisionTree } from "@webspec/shared";
-import { loadRegistryFromStacksDir } from "@webspec/registry";
-import { runPlan } from "@webspec/runtime";
+import {
+  analyzeWebSpec,
+  compileWebSpec,
+  formatTraceabilityMarkdown,
+  lintWebSpec,
+  migrateWebSpec,
+  traceInvariants
+} from "@webspec/compiler";
+import {
+  addDecision,
+  buildDecisionTree,
+  DECISION_RENDER_FORMATS,
+  decisionList,
+  deprecateDecision,
+  diffPlans,
+  finalizeDecision,
+  formatPlanDiff,
+  importDecisions,
+  JSON_SCHEMA_KINDS,
+  moveDecision,
+  removeDecision,
+  renderDecisionTree,
+  webSpecJsonSchema,
+  WebSpecDecisionSchema
+} from "@webspec/shared";
+import type {
+  DecisionRenderFormat,
+  DecisionTree,
+  DecisionTreeNode,
+  Diagnostic,
+  JsonSchemaKind,
+  Plan
+} from "@webspec/shared";
+import { loadRegistryFromStacksDir, loadTemplateSync } from "@webspec/registry";
+import { dryRunBlocked, formatDryRunReport, runPlan } from "@webspec/runtime";
 
 const program = new Command();
 program.name("webspec").description("WebSpec CLI: compile + run web-dev agent plans").version("0.1.0");
@@ -15,6 +46,23 @@ function repoRootFromHere() {
   return process.cwd();
 }
 
+function formatDiagnostic(file: string, d: Diagnostic) {
+  const f = d.file ?? file;
+  const loc = d.range ? `${f}:${d.range.start.line}:${d.range.start.col}` : f;
+  return `${loc}: ${d.code}: ${d.message}`;
+}
+
+// Synchronous reader for spec imports, resolving paths against the repo root
+function fileReader(root: string) {
+  return (p: string) => {
+    try {
+      return readFileSync(path.resolve(root, p), "utf8");
+    } catch {
+      return undefined;
+    }
+  };
+}
+
 async function loadDecisionTree(decisionsDir: string) {
   const treePath = path.join(decisionsDir, "tree.json");
   try {
@@ -42,17 +90,25 @@ program
     const registry = await loadRegistryFromStacksDir(stacksDir);
     const decisionsTree = await loadDecisionTree(path.resolve(root, opts.decisions));
 
-    const res = compileWebSpec({ sourceText: specText, registry, decisionsTree });
+    const res = compileWebSpec({
+      sourceText: specText,
+      registry,
+      decisionsTree,
+      sourcePath: path.relative(root, specPath),
+      readFile: fileReader(root),
+      readTemplate: loadTemplateSync
+    });
     const outDir = path.resolve(root, opts.out, path.basename(specFile).replace(/\W+/g, "_"));
     await fs.mkdir(outDir, { recursive: true });
 
     await fs.writeFile(path.join(outDir, "diagnostics.json"), JSON.stringify(res.diagnostics, null, 2), "utf8");
     if (!res.ok || !res.plan) {
       console.error("Compile failed:");
-      for (const d of res.diagnostics) console.error(`${d.code}: ${d.message}`);
+      for (const d of res.diagnostics) console.error(formatDiagnostic(specFile, d));
       process.exit(1);
     }
 
+    for (const d of res.diagnostics) console.warn(formatDiagnostic(specFile, d));
     await fs.writeFile(path.join(outDir, "plan.json"), JSON.stringify(res.plan, null, 2), "utf8");
     console.log(`Compile OK. Wrote: ${path.relative(root, path.join(outDir, "plan.json"))}`);
   });
@@ -64,6 +120,8 @@ program
   .option("--decisions <dir>", "Decision tree directory", "decisions")
   .option("--out <dir>", "Output dir under .ai", ".ai/build")
   .option("--workdir <dir>", "Directory where plan executes", ".ai/tmp/run")
+  .option("--dry-run", "Show the diffs, commands and check results the run would produce, without writing or running anything")
+  .option("--resume", "Skip steps the last run completed, as long as their ops are unchanged and their checks still pass")
   .action(async (specFile, opts) => {
     const root = repoRootFromHere();
     const specPath = path.resolve(root, specFile);
@@ -72,18 +130,33 @@ program
     const registry = await loadRegistryFromStacksDir(stacksDir);
     const decisionsTree = await loadDecisionTree(path.resolve(root, opts.decisions));
 
-    const res = compileWebSpec({ sourceText: specText, registry, decisionsTree });
+    const res = compileWebSpec({
+      sourceText: specText,
+      registry,
+      decisionsTree,
+      sourcePath: path.relative(root, specPath),
+      readFile: fileReader(root),
+      readTemplate: loadTemplateSync
+    });
     if (!res.ok || !res.plan) {
       console.error("Compile failed:");
-      for (const d of res.diagnostics) console.error(`${d.code}: ${d.message}`);
+      for (const d of res.diagnostics) console.error(formatDiagnostic(specFile, d));
       process.exit(1);
     }
 
+    const workdir = path.resolve(root, opts.workdir);
+    if (opts.dryRun) {
+      console.log(`Dry run against: ${workdir}\n`);
+      const { dryRun } = await runPlan(res.plan, { cwd: workdir, registry, decisionsTree, dryRun: true });
+      process.stdout.write(formatDryRunReport(dryRun!));
+      if (dryRunBlocked(dryRun!).length > 0) process.exit(1);
+      return;
+    }
+
     const outDir = path.resolve(root, opts.out, path.basename(specFile).replace(/\W+/g, "_"));
     await fs.mkdir(outDir, { recursive: true });
     await fs.writeFile(path.join(outDir, "plan.json"), JSON.stringify(res.plan, null, 2), "utf8");
 
-    const workdir = path.resolve(root, opts.workdir);
     await fs.mkdir(workdir, { recursive: true });
 
     // If workdir isn't a git repo, initialize (so git-tracked guardrail can run)
@@ -96,8 +169,458 @@ program
     }
 
     console.log(`Running plan in: ${workdir}`);
-    await runPlan(res.plan, { cwd: workdir, registry });
+    const report = await runPlan(res.plan, { cwd: workdir, registry, decisionsTree, resume: opts.resume });
     console.log("Run complete.");
+    if (report.skippedSteps?.length) {
+      console.log(`Resumed: skipped ${report.skippedSteps.length} completed step(s): ${report.skippedSteps.join(", ")}`);
+    }
+    const asserted = report.assumptions.filter((a) => a.verification === "asserted");
+    if (report.assumptions.length > 0) {
+      const machine = report.assumptions.length - asserted.length;
+      console.log(`Assumptions: ${machine} machine-verified, ${asserted.length} asserted`);
+      for (const a of asserted) console.log(`  asserted: ${a.id} ${a.text}`);
+    }
+  });
+
+program
+  .command("lint")
+  .description("Check a spec without building a plan; --fix repairs mechanical mistakes in place")
+  .argument("<specFile>", "Path to a .yaml WebSpec")
+  .option("--stacks <dir>", "Stacks directory", "stacks")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .option("--fix", "Rewrite the spec with the available fixes (comments and formatting are kept)")
+  .action(async (specFile, opts) => {
+    const root = repoRootFromHere();
+    const specPath = path.resolve(root, specFile);
+    const specText = await fs.readFile(specPath, "utf8");
+    const registry = await loadRegistryFromStacksDir(path.resolve(root, opts.stacks));
+    const decisionsTree = await loadDecisionTree(path.resolve(root, opts.decisions));
+
+    const res = lintWebSpec({
+      sourceText: specText,
+      registry,
+      decisionsTree,
+      sourcePath: path.relative(root, specPath),
+      readFile: fileReader(root),
+      readTemplate: loadTemplateSync,
+      fix: Boolean(opts.fix)
+    });
+    if (res.sourceText !== specText) await fs.writeFile(specPath, res.sourceText, "utf8");
+
+    for (const d of res.fixed) console.log(`fixed: ${d.fix?.description} (${d.code})`);
+    for (const d of res.diagnostics) {
+      console.error(formatDiagnostic(specFile, d) + (d.fix ? ` [fixable: ${d.fix.description}]` : ""));
+    }
+    const count = (severity: string) => res.diagnostics.filter((d) => d.severity === severity).length;
+    const fixable = res.diagnostics.filter((d) => d.fix).length;
+    console.log(`${count("error")} errors, ${count("warn")} warnings${fixable ? `, ${fixable} fixable with --fix` : ""}`);
+    if (!res.ok) process.exit(1);
+  });
+
+program
+  .command("coverage")
+  .description("List written files and commands that no check verifies")
+  .argument("<specFile>", "Path to a .yaml WebSpec")
+  .option("--stacks <dir>", "Stacks directory", "stacks")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .option("--format <format>", "Output format: text or json", "text")
+  .action(async (specFile, opts) => {
+    const root = repoRootFromHere();
+    const specPath = path.resolve(root, specFile);
+    const specText = await fs.readFile(specPath, "utf8");
+    const registry = await loadRegistryFromStacksDir(path.resolve(root, opts.stacks));
+    const decisionsTree = await loadDecisionTree(path.resolve(root, opts.decisions));
+
+    // Coverage is reported even when other guardrails fail, so it can be fixed alongside them
+    const { coverage, diagnostics } = analyzeWebSpec({
+      sourceText: specText,
+      registry,
+      decisionsTree,
+      sourcePath: path.relative(root, specPath),
+      readFile: fileReader(root),
+      readTemplate: loadTemplateSync
+    });
+    if (!coverage) {
+      console.error("Compile failed:");
+      for (const d of diagnostics) console.error(formatDiagnostic(specFile, d));
+      process.exit(1);
+    }
+
+    if (opts.format === "json") {
+      console.log(JSON.stringify(coverage, null, 2));
+      return;
+    }
+    const verified = coverage.items.length - coverage.unverified.length;
+    console.log(`Check coverage: ${Math.round(coverage.ratio * 100)}% (${verified}/${coverage.items.length} ops verified)`);
+    for (const item of coverage.unverified) console.log(`  ${item.step}: ${item.kind} ${item.target}`);
+  });
+
+program
+  .command("trace")
+  .description("Report how each intent invariant is enforced: claiming steps, their decisions, ops and checks")
+  .argument("<specFile>", "Path to a .yaml WebSpec")
+  .option("--stacks <dir>", "Stacks directory", "stacks")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .option("--format <format>", "Output format: md or json", "md")
+  .option("--out <file>", "Write the report here instead of stdout")
+  .action(async (specFile, opts) => {
+    const root = repoRootFromHere();
+    const specPath = path.resolve(root, specFile);
+    const specText = await fs.readFile(specPath, "utf8");
+    const registry = await loadRegistryFromStacksDir(path.resolve(root, opts.stacks));
+    const decisionsTree = await loadDecisionTree(path.resolve(root, opts.decisions));
+
+    const analysis = analyzeWebSpec({
+      sourceText: specText,
+      registry,
+      decisionsTree,
+      sourcePath: path.relative(root, specPath),
+      readFile: fileReader(root),
+      readTemplate: loadTemplateSync
+    });
+    if (!analysis.steps) {
+      console.error("Compile failed:");
+      for (const d of analysis.diagnostics) console.error(formatDiagnostic(specFile, d));
+      process.exit(1);
+    }
+
+    const report = traceInvariants(analysis);
+    const text = opts.format === "json" ? JSON.stringify(report, null, 2) + "\n" : formatTraceabilityMarkdown(report);
+    if (!opts.out) {
+      process.stdout.write(text);
+      return;
+    }
+    await fs.writeFile(path.resolve(root, opts.out), text, "utf8");
+    console.log(`Wrote: ${opts.out}`);
+  });
+
+program
+  .command("diff")
+  .description("Compare what two plans make the agent do, step by step")
+  .argument("<before>", "Plan JSON or .yaml WebSpec (compiled first)")
+  .argument("<after>", "Plan JSON or .yaml WebSpec (compiled first)")
+  .option("--stacks <dir>", "Stacks directory", "stacks")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .option("--format <format>", "Output format: text or json", "text")
+  .action(async (before, after, opts) => {
+    const root = repoRootFromHere();
+    const registry = await loadRegistryFromStacksDir(path.resolve(root, opts.stacks));
+    const decisionsTree = await loadDecisionTree(path.resolve(root, opts.decisions));
+
+    const loadPlan = async (file: string): Promise<Plan> => {
+      const filePath = path.resolve(root, file);
+      const text = await fs.readFile(filePath, "utf8");
+      if (file.endsWith(".json")) return JSON.parse(text);
+      const res = compileWebSpec({
+        sourceText: text,
+        registry,
+        decisionsTree,
+        sourcePath: path.relative(root, filePath),
+        readFile: fileReader(root),
+        readTemplate: loadTemplateSync
+      });
+      if (!res.ok || !res.plan) {
+        console.error(`Compile failed: ${file}`);
+        for (const d of res.diagnostics) console.error(formatDiagnostic(file, d));
+        process.exit(1);
+      }
+      return res.plan;
+    };
+
+    const diff = diffPlans(await loadPlan(before), await loadPlan(after));
+    if (opts.format === "json") console.log(JSON.stringify(diff, null, 2));
+    else process.stdout.write(formatPlanDiff(diff));
+  });
+
+program
+  .command("schema")
+  .description("Print the JSON Schema of specs, stack manifests or plans (e.g. for editor validation)")
+  .option("--kind <kind>", `One of: ${JSON_SCHEMA_KINDS.join(", ")}`, "spec")
+  .option("--out <file>", "Write the schema here instead of stdout")
+  .action(async (opts) => {
+    if (!JSON_SCHEMA_KINDS.includes(opts.kind)) {
+      console.error(`Unknown schema kind: ${opts.kind} (expected ${JSON_SCHEMA_KINDS.join(", ")})`);
+      process.exit(1);
+    }
+    const json = JSON.stringify(webSpecJsonSchema(opts.kind as JsonSchemaKind), null, 2) + "\n";
+    if (!opts.out) {
+      process.stdout.write(json);
+      return;
+    }
+    await fs.writeFile(path.resolve(repoRootFromHere(), opts.out), json, "utf8");
+    console.log(`Wrote: ${opts.out}`);
+  });
+
+program
+  .command("migrate")
+  .description("Upgrade a webspec/v0.1 spec to webspec/v0.2 with explicit steps")
+  .argument("<specFile>", "Path to a v0.1 .yaml WebSpec")
+  .option("--stacks <dir>", "Stacks directory", "stacks")
+  .option("--decisions <dir>", "Decision tree directory; with --out, the placeholder decision is added to its tree.json", "decisions")
+  .option("--out <file>", "Write the migrated spec here instead of stdout")
+  .action(async (specFile, opts) => {
+    const root = repoRootFromHere();
+    const specPath = path.resolve(root, specFile);
+    const specText = await fs.readFile(specPath, "utf8");
+    const registry = await loadRegistryFromStacksDir(path.resolve(root, opts.stacks));
+    const decisionsTree = await loadDecisionTree(path.resolve(root, opts.decisions));
+
+    const res = migrateWebSpec({
+      sourceText: specText,
+      registry,
+      decisionsTree,
+      sourcePath: path.relative(root, specPath),
+      readFile: fileReader(root),
+      readTemplate: loadTemplateSync
+    });
+    if (!res.ok || !res.sourceText) {
+      console.error("Migrate failed:");
+      for (const d of res.diagnostics) console.error(formatDiagnostic(specFile, d));
+      process.exit(1);
+    }
+
+    // Without the placeholder in the tree, compiling the migrated spec fails with E431_DECISION_NOT_IN_TREE
+    const addPlaceholder = res.decisionsTree && !decisionsTree.nodes["DEC-MIGRATED"];
+    const treePath = treeFile(opts.decisions);
+    if (!opts.out) {
+      process.stdout.write(res.sourceText);
+      // The printed spec may never be saved, so the tree is left as it is
+      if (addPlaceholder) {
+        console.error(`Once the spec is saved, add DEC-MIGRATED to ${path.relative(root, treePath)} with: webspec decisions import`);
+      }
+      return;
+    }
+    await fs.writeFile(path.resolve(root, opts.out), res.sourceText, "utf8");
+    if (addPlaceholder) {
+      await fs.writeFile(treePath, JSON.stringify(res.decisionsTree, null, 2) + "\n", "utf8");
+      console.log(`Added DEC-MIGRATED to: ${path.relative(root, treePath)}`);
+    }
+    console.log(`Migrate OK. Wrote: ${opts.out} (replace the INV-MIGRATED/DEC-MIGRATED placeholders)`);
+  });
+
+const decisions = program
+  .command("decisions")
+  .description("Manage the shared decision tree (decisions/tree.json); every edit revalidates and reindexes it");
+
+// Unlike loadDecisionTree, a broken tree is an error here: it must not be overwritten
+async function readTreeFile(treePath: string): Promise<DecisionTree | undefined> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(treePath, "utf8");
+  } catch {
+    return undefined;
+  }
+  const json = JSON.parse(raw);
+  return buildDecisionTree(json?.nodes ? decisionList(json) : (json?.decisions ?? []));
+}
+
+function treeFile(dir: string) {
+  return path.join(path.resolve(repoRootFromHere(), dir), "tree.json");
+}
+
+// For commands that only read the tree: a missing tree is empty, a broken one is reported
+async function readTreeOrExit(dir: string): Promise<DecisionTree> {
+  try {
+    return (await readTreeFile(treeFile(dir))) ?? buildDecisionTree([]);
+  } catch (e) {
+    console.error(`Invalid decision tree: ${e instanceof Error ? e.message : e}`);
+    process.exit(1);
+  }
+}
+
+// Apply an edit to tree.json under --decisions; edits that break the tree leave the file untouched
+async function editTree(dir: string, edit: (tree: DecisionTree | undefined) => DecisionTree) {
+  const treePath = treeFile(dir);
+  try {
+    const tree = edit(await readTreeFile(treePath));
+    await fs.mkdir(path.dirname(treePath), { recursive: true });
+    await fs.writeFile(treePath, JSON.stringify(tree, null, 2) + "\n", "utf8");
+  } catch (e) {
+    console.error(`Decision tree not updated: ${e instanceof Error ? e.message : e}`);
+    process.exit(1);
+  }
+  console.log(`Wrote: ${path.relative(repoRootFromHere(), treePath)}`);
+}
+
+function describeStatus(node: DecisionTreeNode) {
+  const superseded = node.supersededBy ? `, superseded by ${node.supersededBy}` : "";
+  return `${node.status} ${node.confidence}${superseded}`;
+}
+
+function formatTreeOutline(tree: DecisionTree) {
+  const lines: string[] = [];
+  const visit = (id: string, depth: number) => {
+    const node = tree.nodes[id];
+    lines.push(`${"  ".repeat(depth)}${id} [${describeStatus(node)}] ${node.question} → ${node.answer}`);
+    for (const child of node.children) visit(child, depth + 1);
+  };
+  for (const root of tree.index.roots) visit(root, 0);
+  return lines.join("\n");
+}
+
+function formatDecision(node: DecisionTreeNode) {
+  const field = (name: string, value: string | undefined) => (value ? [`  ${(name + ":").padEnd(15)}${value}`] : []);
+  return [
+    `${node.id}: ${node.question}`,
+    ...field("answer", node.answer),
+    ...field("rationale", node.rationale),
+    ...field("status", describeStatus(node)),
+    ...field("parent", node.parent ?? undefined),
+    ...field("children", node.children.join(", ")),
+    ...field("supersedes", node.supersedes),
+    ...(node.evidence ?? []).map((e, i) => (i === 0 ? field("evidence", e)[0] : `${" ".repeat(17)}${e}`)),
+    ...(node.history?.length ? ["  history:"] : []),
+    ...(node.history ?? []).map(
+      (h) => `    ${h.changedAt ?? "(undated)"}  ${h.answer} — ${h.rationale}${h.reason ? ` (changed: ${h.reason})` : ""}`
+    )
+  ].join("\n");
+}
+
+decisions
+  .command("show")
+  .description("Print the tree as an outline, or one decision with its history")
+  .argument("[id]", "Decision id")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .option("--format <format>", "Output format: text or json", "text")
+  .action(async (id, opts) => {
+    const tree = await readTreeOrExit(opts.decisions);
+    const node = id ? tree.nodes[id] : undefined;
+    if (id && !node) {
+      console.error(`Unknown decision: ${id}`);
+      process.exit(1);
+    }
+    if (opts.format === "json") console.log(JSON.stringify(node ?? tree, null, 2));
+    else console.log(node ? formatDecision(node) : formatTreeOutline(tree));
+  });
+
+decisions
+  .command("render")
+  .description("Render the tree for review: an ADR-style Markdown record or a Mermaid graph")
+  .option("--format <format>", `One of: ${DECISION_RENDER_FORMATS.join(", ")}`, "md")
+  .option("--out <file>", "Write here instead of stdout")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .action(async (opts) => {
+    if (!DECISION_RENDER_FORMATS.includes(opts.format)) {
+      console.error(`Unknown format: ${opts.format} (expected ${DECISION_RENDER_FORMATS.join(", ")})`);
+      process.exit(1);
+    }
+    const tree = await readTreeOrExit(opts.decisions);
+    const text = renderDecisionTree(tree, opts.format as DecisionRenderFormat);
+    if (!opts.out) {
+      process.stdout.write(text);
+      return;
+    }
+    await fs.writeFile(path.resolve(repoRootFromHere(), opts.out), text, "utf8");
+    console.log(`Wrote: ${opts.out}`);
+  });
+
+decisions
+  .command("add")
+  .description("Record a new decision")
+  .argument("<id>", "Decision id, e.g. DEC-02")
+  .requiredOption("--question <text>", "The question decided")
+  .requiredOption("--answer <text>", "The answer chosen")
+  .requiredOption("--rationale <text>", "Why this answer")
+  .option("--parent <id>", "Parent decision")
+  .option("--supersedes <id>", "Decision this one replaces")
+  .option("--status <status>", "provisional or final", "provisional")
+  .option("--confidence <n>", "Confidence between 0 and 1", "0.5")
+  .option("--evidence <refs...>", "Evidence references, e.g. README.md#Heading")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .action(async (id, opts) => {
+    const parsed = WebSpecDecisionSchema.safeParse({
+      id,
+      parent: opts.parent ?? null,
+      question: opts.question,
+      answer: opts.answer,
+      rationale: opts.rationale,
+      status: opts.status,
+      confidence: Number(opts.confidence),
+      evidence: opts.evidence,
+      supersedes: opts.supersedes
+    });
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) console.error(`Invalid decision: ${issue.path.join(".")}: ${issue.message}`);
+      process.exit(1);
+    }
+    await editTree(opts.decisions, (tree) => addDecision(tree, parsed.data));
+  });
+
+decisions
+  .command("finalize")
+  .description("Mark a provisional decision final")
+  .argument("<id>", "Decision id")
+  .option("--confidence <n>", "New confidence between 0 and 1")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .action(async (id, opts) => {
+    const confidence = opts.confidence === undefined ? undefined : Number(opts.confidence);
+    if (confidence !== undefined && !(confidence >= 0 && confidence <= 1)) {
+      console.error(`Invalid confidence: ${opts.confidence} (expected a number between 0 and 1)`);
+      process.exit(1);
+    }
+    await editTree(opts.decisions, (tree) => finalizeDecision(tree ?? buildDecisionTree([]), id, confidence));
+  });
+
+decisions
+  .command("deprecate")
+  .description("Retire a decision that no longer holds and has no replacement (add one with --supersedes if it has)")
+  .argument("<id>", "Decision id")
+  .option("--reason <text>", "Why it no longer holds; kept in the decision's history")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .action(async (id, opts) => {
+    await editTree(opts.decisions, (tree) => deprecateDecision(tree ?? buildDecisionTree([]), id, opts.reason));
+  });
+
+decisions
+  .command("move")
+  .description("Re-parent a decision (without --parent it becomes a root)")
+  .argument("<id>", "Decision id")
+  .option("--parent <id>", "New parent decision")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .action(async (id, opts) => {
+    await editTree(opts.decisions, (tree) => moveDecision(tree ?? buildDecisionTree([]), id, opts.parent ?? null));
+  });
+
+decisions
+  .command("remove")
+  .description("Delete a decision recorded by mistake (deprecate or supersede decisions that once held)")
+  .argument("<id>", "Decision id")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .action(async (id, opts) => {
+    await editTree(opts.decisions, (tree) => removeDecision(tree ?? buildDecisionTree([]), id));
+  });
+
+decisions
+  .command("import")
+  .description("Copy a spec's inline decisions[] into the tree (resolves E431_DECISION_NOT_IN_TREE)")
+  .argument("<specFile>", "Path to a .yaml WebSpec")
+  .option("--stacks <dir>", "Stacks directory", "stacks")
+  .option("--decisions <dir>", "Decision tree directory", "decisions")
+  .action(async (specFile, opts) => {
+    const root = repoRootFromHere();
+    const specPath = path.resolve(root, specFile);
+    const specText = await fs.readFile(specPath, "utf8");
+    const registry = await loadRegistryFromStacksDir(path.resolve(root, opts.stacks));
+
+    // Imported fragments can contribute decisions too, so take them from the analyzed spec
+    const { spec, diagnostics } = analyzeWebSpec({
+      sourceText: specText,
+      registry,
+      sourcePath: path.relative(root, specPath),
+      readFile: fileReader(root)
+    });
+    if (!spec) {
+      console.error("Spec could not be read:");
+      for (const d of diagnostics) console.error(formatDiagnostic(specFile, d));
+      process.exit(1);
+    }
+
+    await editTree(opts.decisions, (tree) => {
+      const res = importDecisions(tree, spec.lang === "webspec/v0.2" ? (spec.decisions ?? []) : []);
+      console.log(`Imported ${res.added.length} decision(s)${res.added.length ? `: ${res.added.join(", ")}` : ""}`);
+      for (const id of res.conflicting) console.warn(`${id}: differs from the tree's record; kept the tree's (edit one of them)`);
+      return res.tree;
+    });
   });
 
 program.parseAsync();
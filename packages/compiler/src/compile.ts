@@ -0,0 +1,1004 @@
+import picomatch from "picomatch";
+import {
+  buildDecisionTree,
+  contentHash,
+  currentDecision,
+  manifestHash,
+  matchesCommandPattern,
+  parseShellCommand,
+  planDigest,
+  sha256Hex,
+  WebSpecSchema,
+  StackManifestSchema
+} from "@webspec/shared";
+import type {
+  DecisionTree,
+  Diagnostic,
+  DiagnosticFix,
+  Plan,
+  PlanAssumption,
+  PlanCheck,
+  PlanNonGoal,
+  PlanOp,
+  PlanStep,
+  StackMacroArgDef,
+  StackMacroArgType,
+  StackMacroDef,
+  StackManifest,
+  TemplateVars,
+  WebSpec,
+  WebSpecAction,
+  WebSpecDecision,
+  WebSpecEnsure,
+  WebSpecV2
+} from "@webspec/shared";
+import { diag } from "./diagnostics";
+import { analyzeCheckCoverage, enforceCoveragePolicy } from "./coverage";
+import type { CheckCoverage } from "./coverage";
+import { effectiveDecisionPolicy, enforceDecisionPolicy, verifyDecisionEvidence } from "./decisions";
+import { checkWriteConflicts, orderSteps } from "./graph";
+import { resolveImports } from "./imports";
+import { checkNonGoals, planNonGoals } from "./nongoals";
+import type { ImportedFile } from "./imports";
+import { isAbsolutePath, joinPath } from "./paths";
+import { render } from "./render";
+import { checkTemplates, templatePartials } from "./templates";
+import type { TemplateLoader } from "./templates";
+import { synthesizeV1Steps } from "./v1";
+import { locateDiagnostics, parseSource, pointer, rangeFromOffsets } from "./source";
+import type { SourceDoc, SourceMap } from "./source";
+
+export type CompileInput = {
+  sourceText: string;
+  registry: Record<string, Record<string, unknown>>; // stack manifests keyed by id, as the registry loads them
+  decisionsTree?: DecisionTree;
+  sourcePath?: string; // path of the spec file; imports resolve relative to it
+  readFile?: (path: string) => string | undefined; // loads imported fragments and evidence; undefined when missing
+  readTemplate?: TemplateLoader; // loads from the stack's templates/ dir; templates are only checked when given
+};
+
+export type SpecAnalysis = {
+  diagnostics: Diagnostic[];
+  source?: SourceDoc;
+  sourceMap?: SourceMap;
+  files?: ImportedFile[];
+  spec?: WebSpec;
+  manifest?: StackManifest;
+  decisions?: WebSpecDecision[]; // the decision records in effect: inline, or from the decision tree
+  assumptions?: PlanAssumption[];
+  nonGoals?: PlanNonGoal[];
+  steps?: PlanStep[];
+  coverage?: CheckCoverage;
+};
+
+export type CompileOutput = {
+  ok: boolean;
+  diagnostics: Diagnostic[];
+  plan?: Plan;
+};
+
+// The v0.2 sections a pass reads; v0.1 specs have none of them, and `lang` keeps them assignable
+type SpecSections<K extends keyof WebSpecV2> = Pick<WebSpec, "lang"> & Pick<WebSpecV2, K>;
+
+function ensureStepHasProofs(step: PlanStep, out: Diagnostic[], path?: string) {
+  const touches = step.ops?.length ? true : false;
+  if (touches && (!step.checks || step.checks.length === 0)) {
+    out.push(
+      diag(
+        "E400_STEP_NO_ENSURES",
+        `Step "${step.id}" has actions but no ensures/checks.`,
+        "Add at least one ensure (file.exists, file.contains, cmd.ok, route.exists, git.trackedOnly, doc.*).",
+        path
+      )
+    );
+  }
+}
+
+function ensureStepHasClaims(step: PlanStep, out: Diagnostic[], path?: string, invariantIds: string[] = []) {
+  const touches = step.ops?.length ? true : false;
+  if (touches && (!step.claims || step.claims.length === 0)) {
+    // With a single invariant there is only one claim the step can make
+    const fix: DiagnosticFix | undefined =
+      path && invariantIds.length === 1
+        ? {
+            description: `Claim ${invariantIds[0]} in step "${step.id}"`,
+            edits: [{ op: "add", path: `${path}/claims`, value: invariantIds[0] }]
+          }
+        : undefined;
+    out.push({
+      ...diag(
+        "E420_STEP_NO_CLAIMS",
+        `Step "${step.id}" has actions but no claims.`,
+        "Add claims referencing intent.invariants to keep the plan on track.",
+        path
+      ),
+      fix
+    });
+  }
+}
+
+function inferAllowedWrite(manifest: StackManifest) {
+  const allowed = manifest.effectsPolicy?.allowedWriteGlobs ?? [];
+  const denied = manifest.effectsPolicy?.deniedWriteGlobs ?? [];
+  return { allowed, denied };
+}
+
+function effectCheckPath(
+  pathStr: string,
+  allowedStack: string[],
+  allowedSpec: string[] | undefined,
+  denied: string[],
+  out: Diagnostic[],
+  path?: string
+) {
+  const isDenied = denied.some((g) => picomatch.isMatch(pathStr, g));
+  if (isDenied) {
+    out.push(diag("E301_DENIED_PATH", `Write denied for path: ${pathStr}`, "Do not write .env files or denied globs.", path));
+    return false;
+  }
+  const okStack = allowedStack.some((g) => picomatch.isMatch(pathStr, g));
+  if (!okStack) {
+    out.push(
+      diag(
+        "E300_WRITE_OUTSIDE",
+        `Write outside allowed globs: ${pathStr}`,
+        `Allowed globs: ${allowedStack.join(", ")}`,
+        path
+      )
+    );
+    return false;
+  }
+  if (allowedSpec) {
+    const okSpec = allowedSpec.some((g) => picomatch.isMatch(pathStr, g));
+    if (!okSpec) {
+      out.push({
+        ...diag(
+          "E302_SCOPE_VIOLATION",
+          `Write outside spec.writeScopes: ${pathStr}`,
+          `Spec writeScopes: ${allowedSpec.join(", ")}`,
+          path
+        ),
+        fix: {
+          description: `Add ${pathStr} to effects.writeScopes`,
+          edits: [{ op: "add", path: "/effects/writeScopes", value: pathStr }]
+        }
+      });
+      return false;
+    }
+  }
+  return true;
+}
+
+function effectCheckCmd(cmd: string, allowPrefixes: string[], denySubs: string[], out: Diagnostic[], path?: string) {
+  const parsed = parseShellCommand(cmd);
+  if (!parsed.ok) {
+    out.push(
+      diag(
+        "E312_CMD_SHELL_SYNTAX",
+        `Command rejected (${parsed.error}): ${cmd}`,
+        "Commands run without a shell; split chained commands into separate run actions.",
+        path
+      )
+    );
+    return false;
+  }
+  if (!allowPrefixes.some((p) => matchesCommandPattern(parsed.argv, p))) {
+    out.push(
+      diag("E310_CMD_NOT_ALLOWED", `Command not allowed: ${cmd}`, `Allowed: ${allowPrefixes.join(", ")}`, path)
+    );
+    return false;
+  }
+  for (const bad of denySubs) {
+    if (cmd.includes(bad)) {
+      out.push(diag("E311_CMD_DENIED_SUBSTRING", `Command contains denied substring: "${bad}"`, "Edit the plan.", path));
+      return false;
+    }
+  }
+  return true;
+}
+
+function mapEnsureToCheck(ensure: WebSpecEnsure, diagnostics: Diagnostic[], path?: string): PlanCheck[] {
+  const check = ensureCheck(ensure);
+  if (check) return [check];
+  diagnostics.push(diag("E210_UNKNOWN_ENSURE", "Unknown ensure/check type.", "Use a supported ensure type.", path));
+  return [];
+}
+
+function ensureCheck(ensure: WebSpecEnsure): PlanCheck | undefined {
+  if ("exists" in ensure) return { kind: "file.exists", path: ensure.exists };
+  if ("contains" in ensure) return { kind: "file.contains", path: ensure.contains.path, text: ensure.contains.text };
+  if ("routeExists" in ensure) return { kind: "route.exists", route: ensure.routeExists };
+  if ("cmdOk" in ensure) return { kind: "cmd.ok", cmd: ensure.cmdOk };
+  if ("trackedOnly" in ensure)
+    return { kind: "git.trackedOnly", glob: ensure.trackedOnly.glob, allow: ensure.trackedOnly.allow };
+  if ("docSection" in ensure) return { kind: "doc.section", path: ensure.docSection.path, heading: ensure.docSection.heading };
+  if ("docContains" in ensure) return { kind: "doc.contains", path: ensure.docContains.path, text: ensure.docContains.text };
+  if ("docContainsFuzzy" in ensure)
+    return {
+      kind: "doc.contains_fuzzy",
+      path: ensure.docContainsFuzzy.path,
+      text: ensure.docContainsFuzzy.text,
+      threshold: ensure.docContainsFuzzy.threshold ?? 0.8,
+      gate: ensure.docContainsFuzzy.gate
+    };
+  if ("artifactExists" in ensure) return { kind: "artifact.exists", path: ensure.artifactExists.path };
+  return undefined;
+}
+
+function checkMacroArg(key: string, type: StackMacroArgType, value: unknown, diagnostics: Diagnostic[], path?: string) {
+  const typeError = (expected: string) => {
+    diagnostics.push(
+      diag("E204_MACRO_ARG_TYPE", `Macro arg "${key}" must be ${expected}.`, "Match the arg type declared by the stack macro.", path)
+    );
+    return undefined;
+  };
+
+  if (type === "string") return typeof value === "string" ? value : typeError("a string (quote numbers and booleans)");
+  if (type === "string[]") {
+    return Array.isArray(value) && value.every((v) => typeof v === "string") ? value : typeError("an array of strings");
+  }
+  if (type === "path") {
+    if (typeof value !== "string") return typeError("a relative path string");
+    const normalized = joinPath("", value.replace(/\\/g, "/"));
+    if (isAbsolutePath(value) || normalized === ".." || normalized.startsWith("../")) {
+      diagnostics.push(
+        diag("E206_MACRO_ARG_PATH_ESCAPES", `Macro arg "${key}" escapes the repo: ${value}`, "Use a path inside the repo.", path)
+      );
+      return undefined;
+    }
+    if (!normalized) return typeError("a non-empty relative path");
+    return normalized;
+  }
+  return value; // json: any value
+}
+
+/**
+ * Validate macro args against the macro's declared arg types and apply defaults.
+ * Returns the validated values (paths normalized) and the vars used for rendering (json args serialized).
+ */
+function normalizeMacroVars(args: Record<string, unknown>, macroDef: StackMacroDef, diagnostics: Diagnostic[], path?: string) {
+  const declared = macroDef.args ?? {};
+  const values: Record<string, unknown> = {};
+  const vars: Record<string, unknown> = {};
+
+  for (const key of Object.keys(args)) {
+    if (!(key in declared)) {
+      diagnostics.push(
+        diag(
+          "E207_UNKNOWN_MACRO_ARG",
+          `Unknown macro arg: ${key}`,
+          `Declared args: ${Object.keys(declared).join(", ") || "(none)"}`,
+          path && `${path}/${key}`
+        )
+      );
+    }
+  }
+
+  for (const [key, def] of Object.entries(declared)) {
+    const { type, optional, default: defaultValue }: Exclude<StackMacroArgDef, StackMacroArgType> =
+      typeof def === "string" ? { type: def } : def;
+    let value = args[key];
+    if (value === undefined) value = defaultValue;
+    if (value === undefined) {
+      if (!optional) {
+        diagnostics.push(
+          diag("E201_MISSING_MACRO_ARG", `Missing macro arg: ${key}`, `Provide "${key}" in macro args.`, path)
+        );
+      }
+      vars[key] = type === "string[]" ? [] : "";
+      continue;
+    }
+    const checked = checkMacroArg(key, type, value, diagnostics, path && `${path}/${key}`);
+    if (checked === undefined) {
+      vars[key] = "";
+      continue;
+    }
+    values[key] = checked;
+    vars[key] = type === "json" ? JSON.stringify(checked) : checked;
+  }
+  return { values, vars };
+}
+
+const MAX_MACRO_DEPTH = 8;
+
+// Render nested macro args and template vars. A string that is exactly "${name}" passes the caller's validated value
+// through, so arrays and json values survive the hop; any other string is rendered like the rest of the macro body.
+function renderMacroArgs(value: unknown, values: Record<string, unknown>, vars: Record<string, unknown>): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(/^\$\{([A-Za-z0-9_]+)\}$/);
+    if (whole && whole[1] in values) return values[whole[1]];
+    return render(value, vars);
+  }
+  if (Array.isArray(value)) return value.map((v) => renderMacroArgs(v, values, vars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderMacroArgs(v, values, vars)]));
+  }
+  return value;
+}
+
+/**
+ * Expand a stack macro into plan ops. `chain` is the macro call stack leading here; every op records it in `via`
+ * so the plan traces ops back to the macros they came from.
+ */
+function expandMacro(
+  name: string,
+  args: Record<string, unknown>,
+  manifest: StackManifest,
+  diagnostics: Diagnostic[],
+  path?: string,
+  chain: string[] = []
+): PlanOp[] {
+  const via = [...chain, name];
+  const macro = manifest.macros?.[name];
+  if (!macro) {
+    const from = chain.length ? ` (called from ${chain.join(" -> ")})` : "";
+    diagnostics.push(
+      diag("E200_UNKNOWN_MACRO", `Unknown macro: ${name}${from}`, "Define it in the stack manifest.", path && `${path}/name`)
+    );
+    return [];
+  }
+  if (chain.includes(name)) {
+    diagnostics.push(
+      diag(
+        "E202_MACRO_CYCLE",
+        `Macro expansion cycle detected: ${via.join(" -> ")}`,
+        "Stack macros must not call themselves directly or indirectly.",
+        path && `${path}/name`
+      )
+    );
+    return [];
+  }
+  if (chain.length >= MAX_MACRO_DEPTH) {
+    diagnostics.push(
+      diag(
+        "E203_MACRO_DEPTH",
+        `Macro expansion deeper than ${MAX_MACRO_DEPTH} levels: ${via.join(" -> ")}`,
+        "Flatten the stack macros.",
+        path && `${path}/name`
+      )
+    );
+    return [];
+  }
+
+  const { values, vars } = normalizeMacroVars(args, macro, diagnostics, path && `${path}/args`);
+  const ops: PlanOp[] = [];
+  for (const a of macro.expandsTo) {
+    if (a.kind === "macro") {
+      const nestedArgs = renderMacroArgs(a.args ?? {}, values, vars) as Record<string, unknown>;
+      ops.push(...expandMacro(a.name, nestedArgs, manifest, diagnostics, path, via));
+    } else if (a.kind === "run") {
+      ops.push({ kind: "RUN", cmd: render(a.cmd, vars), cwd: a.cwd ? render(a.cwd, vars) : undefined, via });
+    } else if (a.kind === "writeFile") {
+      ops.push({ kind: "WRITE_FILE", path: render(a.path, vars), content: render(a.content, vars), via });
+    } else if (a.kind === "appendFile") {
+      ops.push({ kind: "APPEND_FILE", path: render(a.path, vars), content: render(a.content, vars), via });
+    } else if (a.kind === "writeTemplate") {
+      const templateVars = a.vars ? (renderMacroArgs(a.vars, values, vars) as TemplateVars) : undefined;
+      ops.push({ kind: "WRITE_TEMPLATE", path: render(a.path, vars), template: a.template, vars: templateVars, via });
+    }
+  }
+  return ops;
+}
+
+function mapActionToOps(action: WebSpecAction, manifest: StackManifest, diagnostics: Diagnostic[], path?: string): PlanOp[] {
+  if ("run" in action) return [{ kind: "RUN", cmd: action.run }];
+  if ("writeFile" in action) {
+    const wf = action.writeFile;
+    if (wf.template) {
+      return [{ kind: "WRITE_TEMPLATE", path: wf.path, template: wf.template, vars: wf.vars ?? {} }];
+    }
+    if (typeof wf.content !== "string") {
+      diagnostics.push(
+        diag(
+          "E220_WRITEFILE_NO_CONTENT",
+          `writeFile missing content for path: ${wf.path}`,
+          "Provide content.",
+          path && `${path}/writeFile`
+        )
+      );
+      return [];
+    }
+    return [{ kind: "WRITE_FILE", path: wf.path, content: wf.content }];
+  }
+  if ("appendFile" in action) return [{ kind: "APPEND_FILE", path: action.appendFile.path, content: action.appendFile.content }];
+  if ("writeTemplate" in action)
+    return [
+      {
+        kind: "WRITE_TEMPLATE",
+        path: action.writeTemplate.path,
+        template: action.writeTemplate.template,
+        vars: action.writeTemplate.vars ?? {}
+      }
+    ];
+  if ("macro" in action)
+    return expandMacro(action.macro.name, action.macro.args ?? {}, manifest, diagnostics, path && `${path}/macro`);
+
+  diagnostics.push(
+    diag("E211_UNKNOWN_ACTION", "Unknown action type.", "Use run/writeFile/appendFile/writeTemplate/macro.", path)
+  );
+  return [];
+}
+
+/**
+ * Build plan steps from spec.steps. `sources` records the JSON pointer each step and op originates from,
+ * so later validations can point diagnostics at the offending YAML.
+ */
+function buildStepsFromSpec(spec: WebSpec, manifest: StackManifest, diagnostics: Diagnostic[], sources: WeakMap<object, string>) {
+  const steps: PlanStep[] = [];
+  (spec.steps ?? []).forEach((step, i) => {
+    const stepPath = pointer(["steps", i]);
+    const ops: PlanOp[] = [];
+    (step.actions ?? []).forEach((action, j) => {
+      const actionPath = pointer(["steps", i, "actions", j]);
+      const actionOps = mapActionToOps(action, manifest, diagnostics, actionPath);
+      for (const op of actionOps) sources.set(op, actionPath);
+      ops.push(...actionOps);
+    });
+    const checks = (step.ensures ?? []).flatMap((e, k) =>
+      mapEnsureToCheck(e, diagnostics, pointer(["steps", i, "ensures", k]))
+    );
+
+    const planStep: PlanStep = {
+      id: step.id,
+      requires: step.requires ?? [],
+      ops,
+      checks,
+      claims: step.claims ?? [],
+      decisions: step.decisions ?? []
+    };
+    sources.set(planStep, stepPath);
+    steps.push(planStep);
+  });
+  return steps;
+}
+
+// The inline decisions of a spec; v0.1 specs have none
+function inlineDecisions(spec: SpecSections<"decisions">) {
+  return spec.decisions ?? [];
+}
+
+function resolveDecisionSource(spec: WebSpec, inputTree: DecisionTree | undefined, diagnostics: Diagnostic[]) {
+  const inline = inlineDecisions(spec);
+  const treeNodes = inputTree?.nodes ? Object.values(inputTree.nodes) : [];
+
+  if (inputTree && inline.length > 0) {
+    inline.forEach((d, i) => {
+      if (!inputTree.nodes?.[d.id]) {
+        diagnostics.push(
+          diag(
+            "E431_DECISION_NOT_IN_TREE",
+            `Inline decision not present in decision tree: ${d.id}`,
+            "Add it to decisions/tree.json or remove from the spec.",
+            pointer(["decisions", i])
+          )
+        );
+      }
+    });
+  }
+
+  const decisions: WebSpecDecision[] = inline.length > 0 ? inline : treeNodes;
+  let tree: DecisionTree | undefined;
+  if (decisions.length > 0) {
+    try {
+      tree = buildDecisionTree(decisions);
+    } catch (e) {
+      diagnostics.push(
+        diag(
+          "E430_DECISION_TREE_INVALID",
+          `Decision tree invalid: ${e instanceof Error ? e.message : String(e)}`,
+          "Fix decision parent links or duplicate ids.",
+          inline.length > 0 ? "/decisions" : undefined
+        )
+      );
+    }
+  } else if (inputTree) {
+    tree = inputTree;
+  }
+
+  const decisionMap = new Map<string, WebSpecDecision>();
+  decisions.forEach((d, i) => {
+    if (decisionMap.has(d.id)) {
+      diagnostics.push(
+        diag(
+          "E413_DECISION_DUPLICATE",
+          `Duplicate decision id: ${d.id}`,
+          "Decision ids must be unique.",
+          inline.length > 0 ? pointer(["decisions", i, "id"]) : undefined
+        )
+      );
+    }
+    decisionMap.set(d.id, d);
+  });
+
+  return { decisions, decisionMap, decisionTree: tree };
+}
+
+// Provisional inline decisions can be finalized by `lint --fix`; decisions from the tree are edited there
+function finalizeDecisionFix(spec: SpecSections<"decisions">, decision: WebSpecDecision): DiagnosticFix | undefined {
+  const i = inlineDecisions(spec).indexOf(decision);
+  if (i < 0 || decision.status !== "provisional") return undefined;
+  return {
+    description: `Mark decision ${decision.id} final`,
+    edits: [{ op: "set", path: pointer(["decisions", i, "status"]), value: "final" }]
+  };
+}
+
+function validateAssumptionsAndDecisions(
+  spec: SpecSections<"assumptions" | "decisions">,
+  decisionMap: Map<string, WebSpecDecision>,
+  diagnostics: Diagnostic[]
+) {
+  (spec.assumptions ?? []).forEach((a, i) => {
+    // With verifiedBy the runtime checks the assumption, so its hand-set status does not matter
+    if (a.status !== "verified" && !a.verifiedBy) {
+      diagnostics.push(
+        diag(
+          "E410_UNVERIFIED_ASSUMPTION",
+          `Assumption "${a.id}" is not verified: ${a.text}`,
+          "Verify assumptions before compile, or add verifiedBy ensures for the runtime to check.",
+          pointer(["assumptions", i, "status"])
+        )
+      );
+    }
+    const d = decisionMap.get(a.id);
+    if (!d) {
+      diagnostics.push(
+        diag(
+          "E411_ASSUMPTION_NO_DECISION",
+          `Assumption "${a.id}" has no matching decision record.`,
+          "Add a decision with the same id in decisions[].",
+          pointer(["assumptions", i, "id"])
+        )
+      );
+    } else if (d.status !== "final") {
+      diagnostics.push({
+        ...diag(
+          "E412_ASSUMPTION_DECISION_NOT_FINAL",
+          `Decision "${d.id}" for assumption is not final.`,
+          "Mark decision status as final.",
+          pointer(["assumptions", i, "id"])
+        ),
+        fix: finalizeDecisionFix(spec, d)
+      });
+    }
+  });
+}
+
+// Assumptions as the plan carries them: verifiedBy ensures become pre-flight checks
+function buildPlanAssumptions(spec: SpecSections<"assumptions">, diagnostics: Diagnostic[]): PlanAssumption[] {
+  return (spec.assumptions ?? []).map((a, i) => ({
+    id: a.id,
+    text: a.text,
+    checks: (a.verifiedBy ?? []).flatMap((e, k) =>
+      mapEnsureToCheck(e, diagnostics, pointer(["assumptions", i, "verifiedBy", k]))
+    )
+  }));
+}
+
+function validateClaims(
+  spec: SpecSections<"intent">,
+  steps: PlanStep[],
+  userStepIds: Set<string>,
+  diagnostics: Diagnostic[],
+  sources: WeakMap<object, string>
+) {
+  const invariants = spec.intent?.invariants ?? [];
+  const invariantIds = new Set<string>(invariants.map((i) => String(i.id)));
+
+  const userSteps = steps.filter((s) => userStepIds.has(s.id));
+  const anyUserOps = userSteps.some((s) => (s.ops ?? []).length > 0);
+
+  if (spec.lang === "webspec/v0.2" && anyUserOps && invariantIds.size === 0) {
+    diagnostics.push(
+      diag(
+        "E424_MISSING_INVARIANTS",
+        "v0.2 specs with actions must declare intent.invariants.",
+        "Add intent.invariants and reference them from step claims.",
+        spec.intent ? "/intent" : undefined
+      )
+    );
+    return;
+  }
+
+  const claimed = new Set<string>();
+  for (const step of userSteps) {
+    const stepPath = sources.get(step);
+    ensureStepHasClaims(step, diagnostics, stepPath, [...invariantIds]);
+    (step.claims ?? []).forEach((c, k) => {
+      if (!invariantIds.has(c)) {
+        diagnostics.push(
+          diag(
+            "E421_UNKNOWN_CLAIM",
+            `Step "${step.id}" claims unknown invariant: ${c}`,
+            "Claims must reference intent.invariants ids.",
+            stepPath && `${stepPath}/claims/${k}`
+          )
+        );
+      } else {
+        claimed.add(c);
+      }
+    });
+  }
+
+  // The last step with actions completes the plan, so it is where an unclaimed invariant is claimed by --fix
+  const lastActing = [...userSteps].reverse().find((st) => (st.ops ?? []).length > 0);
+  const lastActingPath = lastActing && sources.get(lastActing);
+  invariants.forEach((inv, i) => {
+    if (!claimed.has(String(inv.id))) {
+      diagnostics.push({
+        ...diag(
+          "E422_UNCLAIMED_INVARIANT",
+          `Invariant "${inv.id}" is not claimed by any step.`,
+          "Add claims to steps to cover all invariants.",
+          pointer(["intent", "invariants", i])
+        ),
+        fix:
+          lastActing && lastActingPath
+            ? {
+              description: `Claim ${inv.id} in step "${lastActing.id}"`,
+              edits: [{ op: "add", path: `${lastActingPath}/claims`, value: String(inv.id) }]
+            }
+          : undefined
+      });
+    }
+  });
+}
+
+function validateStepDecisions(
+  spec: SpecSections<"decisions">,
+  steps: PlanStep[],
+  userStepIds: Set<string>,
+  decisionMap: Map<string, WebSpecDecision>,
+  decisionTree: DecisionTree | undefined,
+  diagnostics: Diagnostic[],
+  sources: WeakMap<object, string>
+) {
+  for (const step of steps) {
+    if (!userStepIds.has(step.id)) continue;
+    const stepPath = sources.get(step);
+    const touches = step.ops?.length ? true : false;
+    if (touches && (!step.decisions || step.decisions.length === 0)) {
+      diagnostics.push(
+        diag(
+          "E427_STEP_NO_DECISIONS",
+          `Step "${step.id}" has actions but no decisions.`,
+          "Add decisions[] referencing formal decision records.",
+          stepPath
+        )
+      );
+    }
+    (step.decisions ?? []).forEach((d, k) => {
+      const decision = decisionMap.get(d);
+      const decisionPath = stepPath && `${stepPath}/decisions/${k}`;
+      if (!decision) {
+        diagnostics.push(
+          diag(
+            "E425_STEP_DECISION_MISSING",
+            `Step "${step.id}" references missing decision: ${d}`,
+            "Add the decision to decisions[].",
+            decisionPath
+          )
+        );
+        return;
+      }
+      // The tree fills in supersededBy from either side of the link; without a valid tree, use what is declared
+      const node = decisionTree?.nodes?.[d];
+      if (node?.supersededBy ?? decision.supersededBy) {
+        const replacement = node && decisionTree ? currentDecision(decisionTree, d)!.id : decision.supersededBy;
+        diagnostics.push({
+          ...diag(
+            "E418_STEP_DECISION_SUPERSEDED",
+            `Step "${step.id}" references superseded decision ${d} (now ${replacement}).`,
+            `Reference ${replacement}; the superseded record is kept for its history only.`,
+            decisionPath
+          ),
+          fix: decisionPath
+            ? {
+                description: `Reference ${replacement} instead of ${d}`,
+                edits: [{ op: "set", path: decisionPath, value: replacement }]
+              }
+            : undefined
+        });
+      } else if (decision.status === "deprecated") {
+        diagnostics.push(
+          diag(
+            "E419_STEP_DECISION_DEPRECATED",
+            `Step "${step.id}" references deprecated decision: ${d}`,
+            "Deprecated decisions no longer hold; make a new decision for this step.",
+            decisionPath
+          )
+        );
+      } else if (decision.status !== "final") {
+        diagnostics.push({
+          ...diag(
+            "E426_STEP_DECISION_NOT_FINAL",
+            `Step "${step.id}" references a non-final decision: ${d}`,
+            "Finalize the decision before compiling.",
+            decisionPath
+          ),
+          fix: finalizeDecisionFix(spec, decision)
+        });
+      }
+    });
+  }
+}
+
+function appendDocsAndArtifactsChecks(spec: SpecSections<"docs" | "artifacts">, steps: PlanStep[]) {
+  const checks: PlanCheck[] = [];
+
+  const docs = spec.docs ?? {};
+  for (const f of docs.requiredFiles ?? []) {
+    checks.push({ kind: "file.exists", path: f });
+  }
+  for (const section of docs.sections ?? []) {
+    checks.push({ kind: "doc.section", path: section.file, heading: section.heading });
+    for (const text of section.mustContain ?? []) {
+      checks.push({ kind: "doc.contains", path: section.file, text });
+    }
+    for (const fuzzy of section.mustContainFuzzy ?? []) {
+      checks.push({
+        kind: "doc.contains_fuzzy",
+        path: section.file,
+        text: fuzzy.text,
+        threshold: fuzzy.threshold ?? 0.8,
+        gate: fuzzy.gate
+      });
+    }
+  }
+
+  for (const a of spec.artifacts?.required ?? []) {
+    checks.push({ kind: "artifact.exists", path: a.path });
+  }
+
+  if (checks.length === 0) return;
+
+  const lastId = steps[steps.length - 1]?.id;
+  steps.push({
+    id: "verify_docs_artifacts",
+    requires: lastId ? [lastId] : [],
+    ops: [],
+    checks
+  });
+}
+
+function validateArtifactsWritten(spec: SpecSections<"artifacts">, steps: PlanStep[], diagnostics: Diagnostic[]) {
+  const required = spec.artifacts?.required ?? [];
+  const mustWrite = required.filter((r) => r.mustWrite);
+  if (mustWrite.length === 0) return;
+
+  const written = new Set<string>();
+  for (const s of steps) {
+    for (const op of s.ops ?? []) {
+      if (op.kind === "WRITE_FILE" || op.kind === "APPEND_FILE" || op.kind === "WRITE_TEMPLATE") {
+        written.add(op.path);
+      }
+    }
+  }
+
+  for (const a of mustWrite) {
+    if (!written.has(a.path)) {
+      diagnostics.push(
+        diag(
+          "E460_ARTIFACT_NOT_WRITTEN",
+          `Required artifact not written by plan: ${a.path}`,
+          "Add an action that writes this artifact or remove mustWrite.",
+          pointer(["artifacts", "required", required.indexOf(a)])
+        )
+      );
+    }
+  }
+}
+
+/**
+ * Run every compile pass short of assembling the plan. Unlike compileWebSpec, the parsed spec, manifest
+ * and ordered steps are returned alongside the diagnostics for as far as compilation got, so tooling
+ * (migrate, lint, reports) can work with specs that do not compile cleanly.
+ */
+export function analyzeWebSpec(input: CompileInput): SpecAnalysis {
+  const diagnostics: Diagnostic[] = [];
+  const sources = new WeakMap<object, string>();
+
+  const source = parseSource(input.sourceText);
+  if (source.doc.errors.length > 0) {
+    return {
+      source,
+      diagnostics: source.doc.errors.map((e) => ({
+        ...diag("E001_PARSE", `Spec YAML parse failed: ${e.message.split("\n")[0]}`),
+        range: rangeFromOffsets(source, e.pos[0], e.pos[1])
+      }))
+    };
+  }
+
+  const resolved = resolveImports(source, input, diagnostics);
+  const { sourceMap } = resolved;
+  if (diagnostics.some((d) => d.severity === "error")) {
+    return { source, sourceMap, diagnostics: locateDiagnostics(sourceMap, diagnostics) };
+  }
+
+  const parsed = WebSpecSchema.safeParse(resolved.spec);
+  if (!parsed.success) {
+    return {
+      source,
+      sourceMap,
+      diagnostics: locateDiagnostics(
+        sourceMap,
+        parsed.error.issues.map((issue) =>
+          diag("E001_PARSE", `Spec validate failed: ${issue.message}`, undefined, pointer(issue.path))
+        )
+      )
+    };
+  }
+  const spec: WebSpec = parsed.data;
+
+  // Load and validate stack manifest
+  const manifestRaw = input.registry[spec.target];
+  if (!manifestRaw) {
+    return {
+      source,
+      sourceMap,
+      spec,
+      diagnostics: locateDiagnostics(sourceMap, [
+        diag("E100_UNKNOWN_TARGET", `Unknown target: ${spec.target}`, "Choose a supported target from the registry.", "/target")
+      ])
+    };
+  }
+  let manifest: StackManifest;
+  try {
+    manifest = StackManifestSchema.parse(manifestRaw);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { source, sourceMap, spec, diagnostics: [diag("E101_BAD_MANIFEST", `Invalid stack manifest: ${message}`)] };
+  }
+
+  const { allowed: allowedStack, denied } = inferAllowedWrite(manifest);
+  const allowPrefixes = manifest.commands?.allowPrefixes ?? ["pnpm", "git", "node"];
+  const denySubs = manifest.commands?.denySubstrings ?? [];
+
+  const { effects }: SpecSections<"effects"> = spec;
+  const specAllowed = effects?.writeScopes;
+  if (effects?.expansionPolicy === "explicit" && (!specAllowed || specAllowed.length === 0)) {
+    diagnostics.push(
+      diag(
+        "E320_EFFECTS_SCOPE_REQUIRED",
+        "effects.expansionPolicy is explicit but no writeScopes provided.",
+        "Provide effects.writeScopes or change expansionPolicy.",
+        "/effects/expansionPolicy"
+      )
+    );
+  }
+
+  const { decisions, decisionMap, decisionTree } = resolveDecisionSource(spec, input.decisionsTree, diagnostics);
+  validateAssumptionsAndDecisions(spec, decisionMap, diagnostics);
+  const assumptions = buildPlanAssumptions(spec, diagnostics);
+  if (input.readFile) verifyDecisionEvidence(spec, decisionMap, input.readFile, diagnostics);
+
+  // Build steps
+  let steps: PlanStep[] = [];
+
+  const hasCustomSteps = spec.steps && spec.steps.length > 0;
+  if (spec.lang === "webspec/v0.2" && hasCustomSteps) {
+    const anyUserActions = (spec.steps ?? []).some((s) => (s.actions ?? []).length > 0);
+    if (anyUserActions && decisions.length === 0) {
+      diagnostics.push(
+        diag(
+          "E414_DECISIONS_REQUIRED",
+          "v0.2 specs with actions must provide decisions (inline or via decision tree).",
+          "Add decisions[] or provide decisions/tree.json.",
+          "/steps"
+        )
+      );
+    }
+  }
+
+  if (hasCustomSteps) {
+    steps.push(...buildStepsFromSpec(spec, manifest, diagnostics, sources));
+  } else if (spec.lang === "webspec/v0.2") {
+    diagnostics.push(
+      diag(
+        "E902_STEPS_REQUIRED",
+        "v0.2 specs require explicit steps.",
+        "Add steps with actions/ensures/claims to keep the agent on track."
+      )
+    );
+  } else {
+    steps.push(...synthesizeV1Steps(spec, manifest, diagnostics, sources));
+  }
+
+  steps = orderSteps(steps, diagnostics, sources);
+  checkWriteConflicts(steps, diagnostics, sources);
+
+  const userStepIds = new Set<string>((spec.steps ?? []).map((s) => String(s.id)));
+  if (hasCustomSteps) {
+    validateClaims(spec, steps, userStepIds, diagnostics, sources);
+    validateStepDecisions(spec, steps, userStepIds, decisionMap, decisionTree, diagnostics, sources);
+  }
+  enforceDecisionPolicy(effectiveDecisionPolicy(manifest, spec), spec, steps, userStepIds, decisionMap, diagnostics, sources);
+
+  appendDocsAndArtifactsChecks(spec, steps);
+  validateArtifactsWritten(spec, steps, diagnostics);
+
+  const nonGoals = planNonGoals(spec);
+  checkNonGoals(nonGoals, steps, diagnostics, sources);
+  if (input.readTemplate) checkTemplates(steps, manifestRaw, input.readTemplate, diagnostics, sources);
+
+  const coverage = analyzeCheckCoverage(steps, manifest);
+  enforceCoveragePolicy(coverage, manifest, steps, diagnostics, sources);
+
+  // Static effect checks + proof obligations
+  for (const s of steps) {
+    for (const op of s.ops ?? []) {
+      const opPath = sources.get(op) ?? sources.get(s);
+      if (op.kind === "WRITE_FILE" || op.kind === "APPEND_FILE" || op.kind === "WRITE_TEMPLATE") {
+        effectCheckPath(op.path, allowedStack, specAllowed, denied, diagnostics, opPath);
+      }
+      if (op.kind === "RUN") {
+        effectCheckCmd(op.cmd, allowPrefixes, denySubs, diagnostics, opPath);
+      }
+    }
+    ensureStepHasProofs(s, diagnostics, sources.get(s));
+  }
+
+  locateDiagnostics(sourceMap, diagnostics);
+  return {
+    diagnostics,
+    source,
+    sourceMap,
+    files: resolved.files,
+    spec,
+    manifest,
+    decisions,
+    assumptions,
+    nonGoals,
+    steps,
+    coverage
+  };
+}
+
+// Hashes of the templates WRITE_TEMPLATE ops render, and of their partials; without a loader (e.g. in the browser)
+// none are recorded
+function templateHashes(steps: PlanStep[], stack: Record<string, unknown>, readTemplate?: TemplateLoader) {
+  const hashes: Record<string, string> = {};
+  if (!readTemplate) return hashes;
+  const record = (name: string) => {
+    const text = name in hashes ? undefined : readTemplate(stack, name);
+    if (text !== undefined) hashes[name] = sha256Hex(text);
+    return text;
+  };
+  for (const op of steps.flatMap((s) => s.ops)) {
+    if (op.kind !== "WRITE_TEMPLATE") continue;
+    const text = record(op.template);
+    if (text !== undefined) templatePartials(text, stack, readTemplate).forEach(record);
+  }
+  return hashes;
+}
+
+/**
+ * Compile a YAML WebSpec into a deterministic Plan IR.
+ * Guardrails focus on LOGIC drift: unknown target/macros, missing proofs, illegal effects, orphan actions.
+ */
+export function compileWebSpec(input: CompileInput): CompileOutput {
+  const { diagnostics, spec, manifest, assumptions = [], nonGoals = [], steps = [] } = analyzeWebSpec(input);
+  const ok = diagnostics.filter((d) => d.severity === "error").length === 0;
+  // Analysis only stops short of a spec and manifest after reporting an error
+  if (!ok || !spec || !manifest) return { ok: false, diagnostics };
+
+  const plan: Plan = {
+    lang: "webspec/plan-v0.1",
+    target: manifest.id,
+    presetVersion: manifest.presetVersion,
+    // The parsed spec with imports merged in, so fragment edits change it and reformatting does not
+    specHash: contentHash(spec),
+    provenance: {
+      manifest: manifestHash(input.registry[manifest.id]),
+      templates: templateHashes(steps, input.registry[manifest.id], input.readTemplate),
+      decisionTree: input.decisionsTree === undefined ? undefined : contentHash(input.decisionsTree),
+      digest: ""
+    },
+    ...(assumptions.length > 0 ? { assumptions } : {}),
+    ...(nonGoals.length > 0 ? { nonGoals } : {}),
+    steps
+  };
+  plan.provenance!.digest = planDigest(plan);
+
+  return { ok: true, diagnostics, plan };
+}
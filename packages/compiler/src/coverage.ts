@@ -0,0 +1,103 @@
+import picomatch from "picomatch";
+import { parseShellCommand } from "@webspec/shared";
+import type { Diagnostic, PlanCheck, PlanStep, StackManifest } from "@webspec/shared";
+import { diag } from "./diagnostics";
+import { joinPath } from "./paths";
+
+export type CoverageItem = {
+  step: string;
+  kind: "WRITE_FILE" | "APPEND_FILE" | "WRITE_TEMPLATE" | "RUN";
+  target: string; // written path, or the command for RUN
+  verifiedBy: string[]; // ids of steps holding a check that verifies it
+};
+
+export type CheckCoverage = {
+  items: CoverageItem[];
+  unverified: CoverageItem[];
+  ratio: number; // verified / total; 1 when the plan has no ops
+};
+
+// Paths a check actually looks at
+function checkedPaths(check: PlanCheck, manifest: StackManifest | undefined): string[] {
+  if ("path" in check) return [joinPath("", check.path)];
+  if (check.kind === "route.exists") {
+    const routesFile = manifest?.semantics?.routing?.routesFile;
+    return typeof routesFile === "string" ? [joinPath("", routesFile)] : [];
+  }
+  return [];
+}
+
+function argvOf(cmd: string) {
+  const parsed = parseShellCommand(cmd);
+  return parsed.ok ? parsed.argv : [cmd];
+}
+
+/**
+ * Find the file writes and commands of a plan that no check verifies.
+ * A written path is verified by any check on that path (or a trackedOnly glob matching it).
+ * A command is verified by a cmd.ok check running the same argv, or by a check in its own step on a
+ * path the command names (e.g. `pnpm -C apps/web install` and `exists: apps/web/package.json`).
+ */
+export function analyzeCheckCoverage(steps: PlanStep[], manifest?: StackManifest): CheckCoverage {
+  const checks = steps.flatMap((s) => (s.checks ?? []).map((check) => ({ step: s.id, check })));
+  const items: CoverageItem[] = [];
+
+  for (const s of steps) {
+    for (const op of s.ops ?? []) {
+      if (op.kind === "RUN") {
+        const argv = argvOf(op.cmd);
+        const args = argv.slice(1).map((a) => joinPath("", a));
+        const verifiedBy = checks
+          .filter(({ step, check }) => {
+            if (check.kind === "cmd.ok") return JSON.stringify(argvOf(check.cmd)) === JSON.stringify(argv);
+            if (step !== s.id) return false;
+            return checkedPaths(check, manifest).some((p) => args.some((a) => a && (p === a || p.startsWith(`${a}/`))));
+          })
+          .map(({ step }) => step);
+        items.push({ step: s.id, kind: "RUN", target: op.cmd, verifiedBy: [...new Set(verifiedBy)] });
+        continue;
+      }
+      const file = joinPath("", op.path);
+      const verifiedBy = checks
+        .filter(({ check }) =>
+          check.kind === "git.trackedOnly"
+            ? picomatch(check.glob, { dot: true })(file)
+            : checkedPaths(check, manifest).includes(file)
+        )
+        .map(({ step }) => step);
+      items.push({ step: s.id, kind: op.kind, target: file, verifiedBy: [...new Set(verifiedBy)] });
+    }
+  }
+
+  const unverified = items.filter((i) => i.verifiedBy.length === 0);
+  return { items, unverified, ratio: items.length === 0 ? 1 : (items.length - unverified.length) / items.length };
+}
+
+/** Enforce the manifest's `policy.checkCoverage.minRatio`: below it, every unverified op is an error. */
+export function enforceCoveragePolicy(
+  coverage: CheckCoverage,
+  manifest: StackManifest | undefined,
+  steps: PlanStep[],
+  diagnostics: Diagnostic[],
+  sources: WeakMap<object, string>
+) {
+  const minRatio = manifest?.policy?.checkCoverage?.minRatio;
+  if (typeof minRatio !== "number" || coverage.ratio >= minRatio) return;
+
+  const pct = (n: number) => `${Math.round(n * 100)}%`;
+  for (const s of steps) {
+    for (const op of s.ops ?? []) {
+      const target = op.kind === "RUN" ? op.cmd : joinPath("", op.path);
+      const item = coverage.unverified.find((i) => i.step === s.id && i.kind === op.kind && i.target === target);
+      if (!item) continue;
+      diagnostics.push(
+        diag(
+          op.kind === "RUN" ? "E441_UNVERIFIED_RUN" : "E440_UNVERIFIED_WRITE",
+          `${op.kind} ${target} in step "${s.id}" is not verified by any check (coverage ${pct(coverage.ratio)}, policy requires ${pct(minRatio)}).`,
+          op.kind === "RUN" ? "Add a cmdOk ensure or check a path the command creates." : `Add an ensure such as exists: ${target}.`,
+          sources.get(op) ?? sources.get(s)
+        )
+      );
+    }
+  }
+}
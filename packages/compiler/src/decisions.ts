@@ -0,0 +1,134 @@
+import type { DecisionPolicy, Diagnostic, PlanStep, StackManifest, WebSpec, WebSpecDecision, WebSpecV2 } from "@webspec/shared";
+import { diag } from "./diagnostics";
+import { pointer } from "./source";
+
+// What these checks read of a spec; only v0.2 specs have decisions and a policy (`lang` lets v0.1 specs through)
+type DecisionSpec = Pick<WebSpec, "lang"> & Pick<WebSpecV2, "decisions" | "policy">;
+
+/** Stack and spec policies combined; the stricter setting wins, so a spec can tighten its stack but not relax it. */
+export function effectiveDecisionPolicy(manifest: StackManifest | undefined, spec: DecisionSpec | undefined): DecisionPolicy {
+  const stack: DecisionPolicy = manifest?.policy?.decisions ?? {};
+  const own: DecisionPolicy = spec?.policy?.decisions ?? {};
+  const minConfidence = Math.max(stack.minConfidence ?? 0, own.minConfidence ?? 0);
+  return {
+    minConfidence: minConfidence > 0 ? minConfidence : undefined,
+    requireEvidenceForWrites: stack.requireEvidenceForWrites || own.requireEvidenceForWrites || undefined
+  };
+}
+
+export type EvidenceRef = { file: string; heading?: string };
+
+/** `README.md#WebSpec (v0.2)` → file and heading. URLs are not local references and yield undefined. */
+export function parseEvidenceRef(ref: string): EvidenceRef | undefined {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(ref)) return undefined;
+  const hash = ref.indexOf("#");
+  if (hash < 0) return { file: ref.trim() };
+  const heading = ref.slice(hash + 1).trim();
+  return { file: ref.slice(0, hash).trim(), heading: heading || undefined };
+}
+
+// GitHub-style anchor for a heading: "WebSpec (v0.2)" → "webspec-v02"
+function headingSlug(text: string) {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+function hasHeading(markdown: string, heading: string) {
+  const target = heading.trim().toLowerCase();
+  for (const line of markdown.split(/\r?\n/)) {
+    const m = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (m && (m[1].trim().toLowerCase() === target || headingSlug(m[1]) === target)) return true;
+  }
+  return false;
+}
+
+function decisionPath(spec: DecisionSpec, decision: WebSpecDecision, ...rest: Array<string | number>) {
+  const i = (spec.decisions ?? []).indexOf(decision);
+  return i >= 0 ? pointer(["decisions", i, ...rest]) : undefined;
+}
+
+/**
+ * Enforce the decision policy: final decisions need at least `minConfidence`, and with
+ * `requireEvidenceForWrites` every decision referenced by a step that writes files needs evidence.
+ * Tree decisions have no location in the spec, so their diagnostics name the decision only.
+ */
+export function enforceDecisionPolicy(
+  policy: DecisionPolicy,
+  spec: DecisionSpec,
+  steps: PlanStep[],
+  userStepIds: Set<string>,
+  decisionMap: Map<string, WebSpecDecision>,
+  diagnostics: Diagnostic[],
+  sources: WeakMap<object, string>
+) {
+  if (policy.minConfidence !== undefined) {
+    for (const d of decisionMap.values()) {
+      if (d.status !== "final" || d.confidence >= policy.minConfidence) continue;
+      diagnostics.push(
+        diag(
+          "E415_DECISION_LOW_CONFIDENCE",
+          `Decision "${d.id}" is final with confidence ${d.confidence}, below the policy minimum ${policy.minConfidence}.`,
+          "Gather evidence and raise the confidence, or keep the decision provisional.",
+          decisionPath(spec, d, "confidence")
+        )
+      );
+    }
+  }
+
+  if (!policy.requireEvidenceForWrites) return;
+  const reported = new Set<string>();
+  for (const step of steps) {
+    if (!userStepIds.has(step.id) || !(step.ops ?? []).some((op) => op.kind !== "RUN")) continue;
+    const stepPath = sources.get(step);
+    (step.decisions ?? []).forEach((id, k) => {
+      const d = decisionMap.get(id);
+      if (!d || (d.evidence ?? []).length > 0 || reported.has(id)) return;
+      reported.add(id);
+      diagnostics.push(
+        diag(
+          "E416_DECISION_EVIDENCE_REQUIRED",
+          `Decision "${id}" backs file writes in step "${step.id}" but lists no evidence.`,
+          "Add evidence references (e.g. README.md#Heading) to the decision.",
+          stepPath && `${stepPath}/decisions/${k}`
+        )
+      );
+    });
+  }
+}
+
+/**
+ * Resolve `file#Heading` evidence against the repo: the file must exist and, with a heading, contain it
+ * (matched by text or by its GitHub anchor). Needs a file loader, so it is skipped where none is given.
+ */
+export function verifyDecisionEvidence(
+  spec: DecisionSpec,
+  decisionMap: Map<string, WebSpecDecision>,
+  readFile: (path: string) => string | undefined,
+  diagnostics: Diagnostic[]
+) {
+  for (const d of decisionMap.values()) {
+    (d.evidence ?? []).forEach((ref, k) => {
+      const parsed = parseEvidenceRef(ref);
+      if (!parsed) return;
+      const text = parsed.file ? readFile(parsed.file) : undefined;
+      const problem =
+        text === undefined
+          ? `file not found: ${parsed.file || "(none)"}`
+          : parsed.heading && !hasHeading(text, parsed.heading)
+            ? `no heading "${parsed.heading}" in ${parsed.file}`
+            : undefined;
+      if (!problem) return;
+      diagnostics.push(
+        diag(
+          "E417_EVIDENCE_UNRESOLVED",
+          `Evidence "${ref}" of decision "${d.id}" does not resolve: ${problem}.`,
+          "Evidence is a repo-relative path, optionally with #Heading; fix the reference or the document.",
+          decisionPath(spec, d, "evidence", k)
+        )
+      );
+    });
+  }
+}
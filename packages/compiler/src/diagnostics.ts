@@ -0,0 +1,5 @@
+import type { Severity } from "@webspec/shared";
+
+export function diag(code: string, message: string, hint?: string, path?: string, severity: Severity = "error") {
+  return { code, severity, message, hint, path };
+}
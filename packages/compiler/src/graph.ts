@@ -0,0 +1,172 @@
+import type { Diagnostic, PlanOp, PlanStep } from "@webspec/shared";
+import { diag } from "./diagnostics";
+import { joinPath } from "./paths";
+
+function findCycles(steps: PlanStep[], byId: Map<string, PlanStep>) {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  function visit(id: string) {
+    if (visited.has(id)) return;
+    visiting.add(id);
+    stack.push(id);
+    for (const dep of byId.get(id)?.requires ?? []) {
+      if (visiting.has(dep)) {
+        const cycle = [...stack.slice(stack.indexOf(dep)), dep];
+        const key = [...new Set(cycle)].sort().join("\u0000");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else {
+        visit(dep);
+      }
+    }
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+  }
+
+  for (const s of steps) visit(s.id);
+  return cycles;
+}
+
+/**
+ * Validate the step `requires` graph and return the steps in a deterministic topological order.
+ * Among steps whose requirements are satisfied, declaration order wins, so already-ordered specs keep their order.
+ * If the graph is invalid the input order is returned unchanged (the diagnostics fail the compile).
+ */
+export function orderSteps(steps: PlanStep[], diagnostics: Diagnostic[], sources?: WeakMap<object, string>): PlanStep[] {
+  const byId = new Map<string, PlanStep>();
+  let valid = true;
+
+  for (const s of steps) {
+    if (byId.has(s.id)) {
+      const stepPath = sources?.get(s);
+      diagnostics.push(
+        diag("E500_DUPLICATE_STEP_ID", `Duplicate step id: ${s.id}`, "Step ids must be unique.", stepPath && `${stepPath}/id`)
+      );
+      valid = false;
+      continue;
+    }
+    byId.set(s.id, s);
+  }
+
+  for (const s of steps) {
+    const stepPath = sources?.get(s);
+    (s.requires ?? []).forEach((r, k) => {
+      if (!byId.has(r)) {
+        diagnostics.push(
+          diag(
+            "E501_UNKNOWN_STEP_REQUIRE",
+            `Step "${s.id}" requires unknown step: ${r}`,
+            "requires must reference ids of other steps in the spec.",
+            stepPath && `${stepPath}/requires/${k}`
+          )
+        );
+        valid = false;
+      }
+    });
+  }
+  if (!valid) return steps;
+
+  const cycles = findCycles(steps, byId);
+  for (const cycle of cycles) {
+    const stepPath = sources?.get(byId.get(cycle[0])!);
+    diagnostics.push(
+      diag(
+        "E502_STEP_CYCLE",
+        `Step requires cycle detected: ${cycle.join(" -> ")}`,
+        "Remove one of the requires edges to break the cycle.",
+        stepPath && `${stepPath}/requires`
+      )
+    );
+  }
+  if (cycles.length > 0) return steps;
+
+  const done = new Set<string>();
+  const ordered: PlanStep[] = [];
+  while (ordered.length < steps.length) {
+    // Always found: the requires graph was checked for unknown ids and cycles above
+    const next = steps.find((s) => !done.has(s.id) && (s.requires ?? []).every((r) => done.has(r)))!;
+    ordered.push(next);
+    done.add(next.id);
+  }
+  return ordered;
+}
+
+// Transitive `requires` of every step; unknown ids and cycles are reported by orderSteps and skipped here.
+function ancestorsOf(steps: PlanStep[]) {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const memo = new Map<string, Set<string>>();
+  const visit = (id: string): Set<string> => {
+    const known = memo.get(id);
+    if (known) return known;
+    const acc = new Set<string>();
+    memo.set(id, acc);
+    for (const dep of byId.get(id)?.requires ?? []) {
+      if (!byId.has(dep)) continue;
+      acc.add(dep);
+      for (const a of visit(dep)) acc.add(a);
+    }
+    return acc;
+  };
+  for (const s of steps) visit(s.id);
+  return memo;
+}
+
+/**
+ * Flag file writes whose outcome depends on step execution order: two steps that are not ordered by
+ * `requires` touching the same path (an error when either overwrites it, a warning for two appends),
+ * and an overwrite that discards content appended earlier in the plan (warning).
+ * Expects the steps in plan order.
+ */
+export function checkWriteConflicts(steps: PlanStep[], diagnostics: Diagnostic[], sources?: WeakMap<object, string>) {
+  const ancestors = ancestorsOf(steps);
+  const writers = new Map<string, Array<{ step: PlanStep; kind: PlanOp["kind"] }>>();
+  const reported = new Set<string>();
+
+  for (const step of steps) {
+    for (const op of step.ops ?? []) {
+      if (op.kind === "RUN") continue;
+      const file = joinPath("", op.path);
+      const opPath = sources?.get(op) ?? sources?.get(step);
+      const prior = writers.get(file) ?? [];
+
+      for (const w of prior) {
+        const key = `${w.step.id}\u0000${step.id}\u0000${file}`;
+        if (reported.has(key)) continue;
+        const ordered = w.step === step || ancestors.get(step.id)?.has(w.step.id);
+        if (!ordered) {
+          reported.add(key);
+          const appendsOnly = w.kind === "APPEND_FILE" && op.kind === "APPEND_FILE";
+          diagnostics.push(
+            diag(
+              "E503_UNORDERED_WRITE_CONFLICT",
+              `Steps "${w.step.id}" and "${step.id}" both ${appendsOnly ? "append to" : "write"} ${file} but neither requires the other; the result depends on execution order.`,
+              `Add "${w.step.id}" to the requires of "${step.id}" (or the reverse), or write the file from a single step.`,
+              opPath,
+              appendsOnly ? "warn" : "error"
+            )
+          );
+        } else if (w.kind === "APPEND_FILE" && op.kind !== "APPEND_FILE") {
+          reported.add(key);
+          diagnostics.push(
+            diag(
+              "E504_WRITE_CLOBBERS_APPEND",
+              `${op.kind} of ${file} in step "${step.id}" overwrites content appended by step "${w.step.id}".`,
+              "Write the file before appending to it, or fold the appended content into the write.",
+              opPath,
+              "warn"
+            )
+          );
+        }
+      }
+      prior.push({ step, kind: op.kind });
+      writers.set(file, prior);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { WebSpecFragmentSchema } from "@webspec/shared";
+import type { Diagnostic } from "@webspec/shared";
+import { diag } from "./diagnostics";
+import { dirname, isAbsolutePath, joinPath } from "./paths";
+import { parseSource, pointer, rangeForPointer, rangeFromOffsets } from "./source";
+import type { SourceDoc, SourceMap } from "./source";
+
+export type ImportLoader = {
+  sourcePath?: string;
+  readFile?: (path: string) => string | undefined;
+};
+
+export type ImportedFile = { path: string; text: string };
+
+type MergeRule = {
+  path: string[];
+  key: (item: unknown) => string | undefined;
+  // true: keys are ids and must be unique across files; false: duplicate items are dropped
+  unique: boolean;
+};
+
+type Raw = Record<string, unknown>;
+
+function isRecord(v: unknown): v is Raw {
+  return typeof v === "object" && v !== null;
+}
+
+function idOf(item: unknown) {
+  return isRecord(item) && item.id !== undefined ? String(item.id) : undefined;
+}
+
+const MERGE_RULES: MergeRule[] = [
+  { path: ["intent", "invariants"], key: idOf, unique: true },
+  { path: ["intent", "nonGoals"], key: idOf, unique: true },
+  { path: ["assumptions"], key: idOf, unique: true },
+  { path: ["decisions"], key: idOf, unique: true },
+  { path: ["steps"], key: idOf, unique: true },
+  { path: ["docs", "requiredFiles"], key: (x) => JSON.stringify(x), unique: false },
+  { path: ["docs", "sections"], key: (x) => JSON.stringify(x), unique: false },
+  { path: ["effects", "writeScopes"], key: (x) => JSON.stringify(x), unique: false },
+  { path: ["artifacts", "required"], key: (x) => JSON.stringify(x), unique: false }
+];
+
+function getIn(obj: unknown, path: string[]) {
+  return path.reduce<unknown>((o, k) => (isRecord(o) ? o[k] : undefined), obj);
+}
+
+function setIn(obj: Raw, path: string[], value: unknown) {
+  let o = obj;
+  for (const k of path.slice(0, -1)) {
+    const next = o[k];
+    o = isRecord(next) ? next : (o[k] = {});
+  }
+  o[path[path.length - 1]] = value;
+}
+
+/**
+ * Resolve `imports:` of a parsed root spec and merge the fragments into it.
+ * Fragments are merged depth-first in declaration order, before the content of the file importing them.
+ * Id-keyed lists (invariants, nonGoals, assumptions, decisions, steps) are concatenated and must not collide
+ * across files; the other lists are unioned. A file reachable through several imports is merged once.
+ */
+export function resolveImports(root: SourceDoc, loader: ImportLoader, diagnostics: Diagnostic[]) {
+  const rootRaw: unknown = root.doc.toJS();
+  const sourceMap: SourceMap = { root, files: new Map(), origins: new Map() };
+  const files: ImportedFile[] = [];
+
+  if (!isRecord(rootRaw) || !Array.isArray(rootRaw.imports) || rootRaw.imports.length === 0) {
+    return { spec: rootRaw, sourceMap, files };
+  }
+  if (rootRaw.lang !== "webspec/v0.2") {
+    diagnostics.push(
+      diag("E605_IMPORTS_REQUIRE_V02", "imports are only supported in webspec/v0.2 specs.", "Set lang: webspec/v0.2.", "/imports")
+    );
+    return { spec: rootRaw, sourceMap, files };
+  }
+
+  const order: Array<{ file?: string; raw: unknown }> = [];
+  const visited = new Set<string>();
+  // Diagnostics raised here point into a specific file, not into the merged spec, so locate them right away.
+  const report = (d: Diagnostic, file: string | undefined) =>
+    diagnostics.push(file ? { ...d, file } : { ...d, range: d.path === undefined ? undefined : rangeForPointer(root, d.path) });
+
+  const visit = (raw: unknown, file: string | undefined, chain: string[]) => {
+    const imports: unknown[] = isRecord(raw) && Array.isArray(raw.imports) ? raw.imports : [];
+    imports.forEach((rel, i) => {
+      const at = (d: Diagnostic) => report(d, file);
+      if (typeof rel !== "string") return; // schema validation reports it
+      if (isAbsolutePath(rel) || /^[A-Za-z][A-Za-z0-9+.-]*:/.test(rel)) {
+        at(
+          diag(
+            "E603_IMPORT_NOT_RELATIVE",
+            `Import must be a relative path: ${rel}`,
+            "Reference fragments relative to the importing file.",
+            pointer(["imports", i])
+          )
+        );
+        return;
+      }
+      const resolved = joinPath(dirname(file ?? loader.sourcePath ?? ""), rel);
+      if (chain.includes(resolved)) {
+        at(
+          diag(
+            "E604_IMPORT_CYCLE",
+            `Import cycle detected: ${[...chain, resolved].join(" -> ")}`,
+            "Remove one of the imports to break the cycle.",
+            pointer(["imports", i])
+          )
+        );
+        return;
+      }
+      if (visited.has(resolved)) return;
+
+      const text = loader.readFile?.(resolved);
+      if (text === undefined) {
+        at(
+          diag(
+            "E600_IMPORT_NOT_FOUND",
+            loader.readFile ? `Imported file not found: ${resolved}` : `Cannot resolve import without a file loader: ${rel}`,
+            "Check the import path (relative to the importing file).",
+            pointer(["imports", i])
+          )
+        );
+        return;
+      }
+      visited.add(resolved);
+      files.push({ path: resolved, text });
+
+      const source = parseSource(text);
+      sourceMap.files.set(resolved, source);
+      if (source.doc.errors.length > 0) {
+        for (const e of source.doc.errors) {
+          diagnostics.push({
+            ...diag("E001_PARSE", `Fragment YAML parse failed: ${e.message.split("\n")[0]}`),
+            file: resolved,
+            range: rangeFromOffsets(source, e.pos[0], e.pos[1])
+          });
+        }
+        return;
+      }
+      const parsed = WebSpecFragmentSchema.safeParse(source.doc.toJS() ?? {});
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          diagnostics.push({
+            ...diag("E601_IMPORT_INVALID", `Invalid spec fragment: ${issue.message}`, undefined, pointer(issue.path)),
+            file: resolved
+          });
+        }
+        return;
+      }
+      visit(parsed.data, resolved, [...chain, resolved]);
+    });
+    order.push({ file, raw });
+  };
+  visit(rootRaw, undefined, [loader.sourcePath ?? "<root>"]);
+
+  const spec = rootRaw;
+  for (const rule of MERGE_RULES) {
+    const rootValue = getIn(rootRaw, rule.path);
+    if (rootValue !== undefined && !Array.isArray(rootValue)) continue; // leave it for schema validation
+
+    const merged: unknown[] = [];
+    const owners = new Map<string, string | undefined>();
+    for (const { file, raw } of order) {
+      const items = getIn(raw, rule.path);
+      if (!Array.isArray(items)) continue;
+      items.forEach((item, i) => {
+        const itemPointer = pointer([...rule.path, i]);
+        const key = rule.key(item);
+        if (key !== undefined && owners.has(key)) {
+          if (!rule.unique) return;
+          const owner = owners.get(key);
+          if (owner !== file) {
+            report(
+              diag(
+                "E602_IMPORT_COLLISION",
+                `${rule.path.join(".")} id "${key}" from ${file ?? "the root spec"} collides with ${owner ?? "the root spec"}.`,
+                "Ids must be unique across a spec and its imports; rename one of them.",
+                itemPointer
+              ),
+              file
+            );
+            return;
+          }
+        }
+        if (key !== undefined && !owners.has(key)) owners.set(key, file);
+        sourceMap.origins.set(pointer([...rule.path, merged.length]), { file, pointer: itemPointer });
+        merged.push(item);
+      });
+    }
+    if (merged.length > 0 || rootValue !== undefined) setIn(spec, rule.path, merged);
+  }
+
+  return { spec, sourceMap, files };
+}
@@ -0,0 +1,76 @@
+import YAML from "yaml";
+import type { Diagnostic, SpecEdit } from "@webspec/shared";
+import { analyzeWebSpec } from "./compile";
+import type { CompileInput } from "./compile";
+import { pointerSegments, resolveOrigin } from "./source";
+import type { SourceDoc, SourceMap } from "./source";
+
+export type LintInput = CompileInput & { fix?: boolean };
+
+export type LintOutput = {
+  ok: boolean;
+  diagnostics: Diagnostic[]; // what is left after fixing
+  fixed: Diagnostic[]; // diagnostics whose fix was applied
+  sourceText: string; // the (possibly rewritten) root spec
+};
+
+// A fix can surface new fixable diagnostics (a claimed invariant may now need a final decision), so fixing repeats
+const MAX_FIX_ROUNDS = 5;
+
+function applyEdit(doc: YAML.Document, edit: SpecEdit) {
+  const segments = pointerSegments(edit.path);
+  if (edit.op === "set") {
+    doc.setIn(segments, edit.value);
+    return true;
+  }
+  const list = doc.getIn(segments, true);
+  if (YAML.isSeq(list)) {
+    if (list.toJSON().some((v: unknown) => JSON.stringify(v) === JSON.stringify(edit.value))) return false;
+    list.add(doc.createNode(edit.value));
+    return true;
+  }
+  if (list !== undefined) return false; // not a list; leave it to schema validation
+  doc.setIn(segments, doc.createNode([edit.value], { flow: true }));
+  return true;
+}
+
+/**
+ * Apply the fixes attached to diagnostics to the root spec document, in place. Fixes touching content
+ * merged in from an import are skipped: the fragment may be shared, so it is edited by hand.
+ */
+export function applyFixes(source: SourceDoc, sourceMap: SourceMap | undefined, diagnostics: Diagnostic[]) {
+  const applied: Diagnostic[] = [];
+  for (const d of diagnostics) {
+    if (!d.fix) continue;
+    const edits = d.fix.edits.map((e) => ({ ...e, origin: sourceMap ? resolveOrigin(sourceMap, e.path) : { pointer: e.path } }));
+    if (edits.some((e) => e.origin.file !== undefined)) continue;
+    let changed = false;
+    for (const e of edits) changed = applyEdit(source.doc, { op: e.op, path: e.origin.pointer, value: e.value }) || changed;
+    if (changed) applied.push(d);
+  }
+  return applied;
+}
+
+/**
+ * Run the compiler's validations without building a plan. With `fix`, mechanical repairs (missing claims,
+ * unclaimed invariants, provisional decisions, writes outside effects.writeScopes) are written back into the
+ * YAML through the Document API, which keeps comments and formatting of untouched nodes.
+ */
+export function lintWebSpec(input: LintInput): LintOutput {
+  let sourceText = input.sourceText;
+  const fixed: Diagnostic[] = [];
+
+  for (let round = 0; ; round++) {
+    const analysis = analyzeWebSpec({ ...input, sourceText });
+    const applied =
+      input.fix && analysis.source && round < MAX_FIX_ROUNDS
+        ? applyFixes(analysis.source, analysis.sourceMap, analysis.diagnostics)
+        : [];
+    if (applied.length === 0) {
+      const ok = analysis.diagnostics.every((d) => d.severity !== "error");
+      return { ok, diagnostics: analysis.diagnostics, fixed, sourceText };
+    }
+    fixed.push(...applied);
+    sourceText = analysis.source!.doc.toString();
+  }
+}
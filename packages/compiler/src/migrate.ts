@@ -0,0 +1,189 @@
+import YAML from "yaml";
+import { importDecisions } from "@webspec/shared";
+import type { DecisionTree, Diagnostic, PlanCheck, PlanOp, PlanStep, WebSpecDecision, WebSpecStep } from "@webspec/shared";
+import { analyzeWebSpec } from "./compile";
+import type { CompileInput } from "./compile";
+import { diag } from "./diagnostics";
+import { locateDiagnostics } from "./source";
+
+export type MigrateInput = {
+  sourceText: string;
+  registry: CompileInput["registry"]; // stack manifests keyed by id
+  decisionsTree?: DecisionTree; // the shared tree the migrated spec will compile against
+  // As for compileWebSpec, so the migrated spec is checked the way `webspec compile` will check it
+  sourcePath?: CompileInput["sourcePath"];
+  readFile?: CompileInput["readFile"];
+  readTemplate?: CompileInput["readTemplate"];
+};
+
+export type MigrateOutput = {
+  ok: boolean;
+  diagnostics: Diagnostic[];
+  sourceText?: string; // the migrated webspec/v0.2 YAML
+  // The input tree with the placeholder decision added: inline decisions must be in the tree (E431), so the
+  // caller writes it back alongside the migrated spec. Unset when no tree was given.
+  decisionsTree?: DecisionTree;
+};
+
+const MIGRATED_INVARIANT = "INV-MIGRATED";
+const MIGRATED_DECISION = "DEC-MIGRATED";
+
+function opToAction(op: PlanOp, diagnostics: Diagnostic[], stepId: string) {
+  if (op.kind === "RUN") {
+    if (op.cwd) {
+      diagnostics.push(
+        diag(
+          "E911_MIGRATE_UNSUPPORTED_OP",
+          `Step "${stepId}" runs "${op.cmd}" with a cwd, which v0.2 run actions cannot express.`,
+          "Rewrite the command to run from the repo root (e.g. pnpm -C <dir>) in the stack macro."
+        )
+      );
+    }
+    return { run: op.cmd };
+  }
+  if (op.kind === "WRITE_FILE") return { writeFile: { path: op.path, content: op.content } };
+  if (op.kind === "APPEND_FILE") return { appendFile: { path: op.path, content: op.content } };
+  if (op.kind === "WRITE_TEMPLATE") return { writeTemplate: { path: op.path, template: op.template, vars: op.vars ?? {} } };
+  const kind = (op as { kind: string }).kind;
+  diagnostics.push(diag("E911_MIGRATE_UNSUPPORTED_OP", `Step "${stepId}" has an op v0.2 cannot express: ${kind}`));
+  return undefined;
+}
+
+function checkToEnsure(check: PlanCheck) {
+  switch (check.kind) {
+    case "file.exists":
+      return { exists: check.path };
+    case "file.contains":
+      return { contains: { path: check.path, text: check.text } };
+    case "route.exists":
+      return { routeExists: check.route };
+    case "cmd.ok":
+      return { cmdOk: check.cmd };
+    case "git.trackedOnly":
+      return { trackedOnly: { glob: check.glob, allow: check.allow } };
+    case "doc.section":
+      return { docSection: { path: check.path, heading: check.heading } };
+    case "doc.contains":
+      return { docContains: { path: check.path, text: check.text } };
+    case "doc.contains_fuzzy":
+      return { docContainsFuzzy: { path: check.path, text: check.text, threshold: check.threshold, gate: check.gate } };
+    case "artifact.exists":
+      return { artifactExists: { path: check.path } };
+  }
+  return undefined;
+}
+
+// What a plan step does, without the claims/decisions traceability that v0.2 adds on top.
+function programOf(steps: PlanStep[]) {
+  return JSON.stringify(steps.map((s) => ({ id: s.id, requires: s.requires ?? [], ops: s.ops, checks: s.checks })));
+}
+
+// Ranges and fixes of the migrated spec's diagnostics point into YAML the caller never sees; imported fragments are unchanged.
+function unlocated(diagnostics: Diagnostic[]) {
+  return diagnostics.map(({ range, fix, ...d }) => (d.file ? { ...d, range, fix } : d));
+}
+
+// Insert `key` right after `after` so the migrated spec reads top-down like a hand-written v0.2 spec.
+function setAfter(doc: YAML.Document, after: string, key: string, value: unknown) {
+  if (doc.has(key)) {
+    doc.set(key, value);
+    return;
+  }
+  const map = doc.contents as YAML.YAMLMap;
+  const index = map.items.findIndex((p) => YAML.isScalar(p.key) && p.key.value === after);
+  const pair = doc.createPair(key, value);
+  if (index < 0) map.items.push(pair);
+  else map.items.splice(index + 1, 0, pair);
+}
+
+/**
+ * Upgrade a webspec/v0.1 spec to webspec/v0.2. The program v0.1 synthesizes from workspace/ui/routes/quality
+ * is written out as explicit steps; every step claims a placeholder invariant and cites a placeholder
+ * decision, which are meant to be replaced by real intent. The YAML is edited in place so comments and
+ * key order survive, and the result is compiled again, against the tree it will be compiled with, to prove it
+ * compiles cleanly and yields the same ops and checks.
+ */
+export function migrateWebSpec(input: MigrateInput): MigrateOutput {
+  const analysis = analyzeWebSpec(input);
+  const { spec, source, sourceMap } = analysis;
+  if (!spec || !source || !sourceMap || !analysis.steps) return { ok: false, diagnostics: analysis.diagnostics };
+
+  const diagnostics: Diagnostic[] = [];
+  if (spec.lang !== "webspec/v0.1") {
+    diagnostics.push(diag("E910_MIGRATE_NOT_V01", `Only webspec/v0.1 specs can be migrated (got ${spec.lang}).`, undefined, "/lang"));
+    return { ok: false, diagnostics: locateDiagnostics(sourceMap, diagnostics) };
+  }
+
+  const doc = source.doc;
+  if (spec.steps?.length) {
+    // v0.1 already compiles explicit steps as-is; only the traceability fields are missing.
+    spec.steps.forEach((s: WebSpecStep, i: number) => {
+      if (!s.claims?.length) doc.setIn(["steps", i, "claims"], doc.createNode([MIGRATED_INVARIANT], { flow: true }));
+      if (!s.decisions?.length) doc.setIn(["steps", i, "decisions"], doc.createNode([MIGRATED_DECISION], { flow: true }));
+    });
+  } else {
+    const steps = analysis.steps.map((s) => ({
+      id: s.id,
+      ...(s.requires?.length ? { requires: s.requires } : {}),
+      claims: [MIGRATED_INVARIANT],
+      decisions: [MIGRATED_DECISION],
+      actions: (s.ops ?? []).map((op: PlanOp) => opToAction(op, diagnostics, s.id)).filter(Boolean),
+      ensures: (s.checks ?? []).map(checkToEnsure).filter(Boolean)
+    }));
+    if (diagnostics.some((d) => d.severity === "error")) return { ok: false, diagnostics };
+    const stepsNode = doc.createNode(steps);
+    // Short scalar lists (requires, claims, allow) read better inline, as in hand-written specs
+    YAML.visit(stepsNode, {
+      Seq(_, seq) {
+        if (seq.items.every((item) => YAML.isScalar(item))) seq.flow = true;
+      }
+    });
+    doc.set("steps", stepsNode);
+  }
+
+  if (!doc.has("lang")) {
+    (doc.contents as YAML.YAMLMap).items.unshift(doc.createPair("lang", "webspec/v0.2"));
+  } else {
+    doc.set("lang", "webspec/v0.2");
+  }
+  setAfter(doc, "project", "intent", {
+    summary: `TODO: describe what ${spec.project.name} must achieve`,
+    invariants: [{ id: MIGRATED_INVARIANT, text: "TODO: replace with the invariants the steps must uphold" }]
+  });
+  const decision: WebSpecDecision = {
+    id: MIGRATED_DECISION,
+    question: `Which stack should ${spec.project.name} build on?`,
+    answer: spec.target,
+    rationale: "TODO: migrated from webspec/v0.1; record why this stack was chosen",
+    status: "final",
+    confidence: 0.5
+  };
+  setAfter(doc, "intent", "decisions", [decision]);
+  const sourceText = doc.toString();
+  // A tree that already has the placeholder (from an earlier migration) keeps its record
+  const decisionsTree = input.decisionsTree ? importDecisions(input.decisionsTree, [decision]).tree : undefined;
+
+  const migrated = analyzeWebSpec({ ...input, sourceText, decisionsTree });
+  if (migrated.diagnostics.some((d) => d.severity === "error")) {
+    diagnostics.push(
+      diag(
+        "E913_MIGRATE_DOES_NOT_COMPILE",
+        "The migrated spec does not compile.",
+        "Fix the errors below in the v0.1 spec or the stack manifest, then migrate again."
+      )
+    );
+    return { ok: false, diagnostics: [...diagnostics, ...unlocated(migrated.diagnostics)] };
+  }
+  if (!migrated.steps || programOf(migrated.steps) !== programOf(analysis.steps)) {
+    diagnostics.push(
+      diag(
+        "E912_MIGRATE_PLAN_MISMATCH",
+        "The migrated spec does not compile to the same ops and checks as the original.",
+        "Migrate the spec by hand; the stack manifest may use macro features v0.2 actions cannot express."
+      )
+    );
+    return { ok: false, diagnostics: [...diagnostics, ...unlocated(migrated.diagnostics)] };
+  }
+
+  return { ok: true, diagnostics, sourceText, decisionsTree };
+}
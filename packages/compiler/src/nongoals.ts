@@ -0,0 +1,67 @@
+import picomatch from "picomatch";
+import { commandDependencies, matchesCommandPattern, matchesWildcard, packageJsonDependencies, parseShellCommand } from "@webspec/shared";
+import type { Diagnostic, PlanNonGoal, PlanOp, PlanStep, WebSpec } from "@webspec/shared";
+import { diag } from "./diagnostics";
+
+/** Non-goals that carry machine rules, as the plan hands them to the runtime. */
+export function planNonGoals(spec: WebSpec): PlanNonGoal[] {
+  const declared = ("intent" in spec && spec.intent?.nonGoals) || [];
+  return declared.flatMap(({ id, text, forbid }) =>
+    forbid && Object.values(forbid).some((rules) => rules?.length > 0) ? [{ id, text, forbid }] : []
+  );
+}
+
+function isPackageJson(p: string) {
+  return p === "package.json" || p.endsWith("/package.json");
+}
+
+/**
+ * Report ops that do what a non-goal rules out: writing a forbidden path, running a forbidden command,
+ * or adding a forbidden dependency (through a package manager, or by writing package.json).
+ */
+export function checkNonGoals(
+  nonGoals: PlanNonGoal[],
+  steps: PlanStep[],
+  diagnostics: Diagnostic[],
+  sources: WeakMap<object, string>
+) {
+  if (nonGoals.length === 0) return;
+  const violation = (code: string, step: PlanStep, op: PlanOp, what: string, goal: PlanNonGoal) =>
+    diagnostics.push(
+      diag(
+        code,
+        `Step "${step.id}" ${what}, which non-goal "${goal.id}" rules out: ${goal.text}`,
+        "Remove the action, or revise the non-goal if the scope changed.",
+        sources.get(op) ?? sources.get(step)
+      )
+    );
+
+  for (const step of steps) {
+    for (const op of step.ops) {
+      let added: string[] = [];
+      if (op.kind === "RUN") {
+        const parsed = parseShellCommand(op.cmd);
+        if (!parsed.ok) continue; // rejected as E312 already
+        for (const goal of nonGoals) {
+          const pattern = (goal.forbid.commands ?? []).find((p) => matchesCommandPattern(parsed.argv, p));
+          if (pattern) violation("E331_NONGOAL_COMMAND", step, op, `runs "${op.cmd}" (matches "${pattern}")`, goal);
+        }
+        added = commandDependencies(parsed.argv);
+      } else {
+        for (const goal of nonGoals) {
+          const glob = (goal.forbid.paths ?? []).find((g) => picomatch(g, { dot: true })(op.path));
+          if (glob) violation("E330_NONGOAL_PATH", step, op, `writes ${op.path} (matches "${glob}")`, goal);
+        }
+        if (op.kind === "WRITE_FILE" && isPackageJson(op.path)) added = packageJsonDependencies(op.content);
+      }
+
+      for (const name of added) {
+        for (const goal of nonGoals) {
+          if ((goal.forbid.dependencies ?? []).some((p) => matchesWildcard(p, name))) {
+            violation("E332_NONGOAL_DEPENDENCY", step, op, `adds dependency ${name}`, goal);
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// POSIX-style path helpers; the compiler also runs in the browser, so no node:path.
+
+export function dirname(p: string) {
+  const i = p.lastIndexOf("/");
+  return i >= 0 ? p.slice(0, i) : "";
+}
+
+/** Join and normalize. Leading ".." segments that cannot be collapsed are kept. */
+export function joinPath(base: string, rel: string) {
+  const parts: string[] = [];
+  for (const seg of `${base}/${rel}`.split("/")) {
+    if (seg === "" || seg === ".") continue;
+    if (seg === ".." && parts.length > 0 && parts[parts.length - 1] !== "..") parts.pop();
+    else parts.push(seg);
+  }
+  return (base.startsWith("/") ? "/" : "") + parts.join("/");
+}
+
+export function isAbsolutePath(p: string) {
+  return p.startsWith("/") || p.startsWith("\\") || /^[A-Za-z]:[\\/]/.test(p);
+}
@@ -0,0 +1,10 @@
+/** Render `${name}` placeholders of stack macros; `${name...}` spreads an array as space-separated words. */
+export function render(str: string, vars: Record<string, unknown>): string {
+  return str
+    .replace(/\$\{([A-Za-z0-9_]+)\.\.\.\}/g, (_, k) => {
+      const v = vars[k];
+      if (Array.isArray(v)) return v.join(" ");
+      return String(v ?? "");
+    })
+    .replace(/\$\{([A-Za-z0-9_]+)\}/g, (_, k) => String(vars[k] ?? ""));
+}
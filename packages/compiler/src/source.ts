@@ -0,0 +1,91 @@
+import YAML, { LineCounter } from "yaml";
+import type { Diagnostic, SourcePosition, SourceRange } from "@webspec/shared";
+
+export type SourceDoc = {
+  doc: YAML.Document.Parsed;
+  lineCounter: LineCounter;
+};
+
+/** Where a node of the resolved spec came from: a pointer into the root spec or into an imported file. */
+export type SpecOrigin = { file?: string; pointer: string };
+
+/**
+ * Maps the resolved (import-merged) spec back to its source files.
+ * `origins` is keyed by pointers to merged list items; anything not listed lives at the same pointer in the root.
+ */
+export type SourceMap = {
+  root: SourceDoc;
+  files: Map<string, SourceDoc>;
+  origins: Map<string, SpecOrigin>;
+};
+
+export function parseSource(sourceText: string): SourceDoc {
+  const lineCounter = new LineCounter();
+  const doc = YAML.parseDocument(sourceText, { lineCounter });
+  return { doc, lineCounter };
+}
+
+/** Build a JSON pointer from path segments (RFC 6901 escaping). */
+export function pointer(segments: ReadonlyArray<string | number>): string {
+  return segments.map((s) => "/" + String(s).replace(/~/g, "~0").replace(/\//g, "~1")).join("");
+}
+
+export function pointerSegments(ptr: string): Array<string | number> {
+  if (!ptr) return [];
+  return ptr
+    .split("/")
+    .slice(1)
+    .map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map((s) => (/^\d+$/.test(s) ? Number(s) : s));
+}
+
+export function position(source: SourceDoc, offset: number): SourcePosition {
+  const { line, col } = source.lineCounter.linePos(offset);
+  return { line, col, offset };
+}
+
+export function rangeFromOffsets(source: SourceDoc, start: number, end: number): SourceRange {
+  return { start: position(source, start), end: position(source, end) };
+}
+
+/**
+ * Resolve a JSON pointer to the source range of its YAML node.
+ * Pointers to missing nodes fall back to the nearest existing ancestor; the document root yields no range.
+ */
+export function rangeForPointer(source: SourceDoc, ptr: string): SourceRange | undefined {
+  const segments = pointerSegments(ptr);
+  while (segments.length > 0) {
+    const node = source.doc.getIn(segments, true);
+    if (YAML.isNode(node) && node.range) return rangeFromOffsets(source, node.range[0], node.range[1]);
+    segments.pop();
+  }
+  return undefined;
+}
+
+export function resolveOrigin(map: SourceMap, ptr: string): SpecOrigin {
+  for (let prefix = ptr; prefix; prefix = prefix.slice(0, prefix.lastIndexOf("/"))) {
+    const origin = map.origins.get(prefix);
+    if (origin) return { file: origin.file, pointer: origin.pointer + ptr.slice(prefix.length) };
+  }
+  return { pointer: ptr };
+}
+
+/**
+ * Attach source ranges to every diagnostic that carries a JSON pointer path.
+ * Paths into the resolved spec are rewritten to the file they originate from; diagnostics that already
+ * name a `file` are taken to point into that file.
+ */
+export function locateDiagnostics(map: SourceMap, diagnostics: Diagnostic[]) {
+  for (const d of diagnostics) {
+    if (d.range || d.path === undefined) continue;
+    if (d.file === undefined) {
+      const origin = resolveOrigin(map, d.path);
+      d.path = origin.pointer;
+      if (origin.file) d.file = origin.file;
+    }
+    const source = d.file === undefined ? map.root : map.files.get(d.file);
+    const range = source && rangeForPointer(source, d.path);
+    if (range) d.range = range;
+  }
+  return diagnostics;
+}
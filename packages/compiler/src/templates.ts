@@ -0,0 +1,94 @@
+import { analyzeTemplate, renderTemplate } from "@webspec/shared";
+import type { Diagnostic, PlanOp, PlanStep, TemplateAnalysis } from "@webspec/shared";
+import { diag } from "./diagnostics";
+
+// `stack` is the registry entry: the manifest as loaded, with bookkeeping such as __stackRoot
+export type TemplateLoader = (stack: Record<string, unknown>, template: string) => string | undefined;
+
+function origin(op: PlanOp) {
+  return op.via?.length ? ` (from macro ${op.via.join(" -> ")})` : "";
+}
+
+/** Partials a template reaches, transitively; none when it does not parse (checkTemplates reports that). */
+export function templatePartials(text: string, stack: Record<string, unknown>, readTemplate: TemplateLoader): string[] {
+  try {
+    return analyzeTemplate(text, (name) => readTemplate(stack, name)).partials;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check WRITE_TEMPLATE ops against the stack's templates/ dir before anything runs: the template must exist and
+ * parse, every var it needs must be given, vars it never reads are flagged, and a preview render with the op's vars
+ * must succeed — the runtime renders with the same code, so what passes here renders there.
+ */
+export function checkTemplates(
+  steps: PlanStep[],
+  stack: Record<string, unknown>,
+  readTemplate: TemplateLoader,
+  diagnostics: Diagnostic[],
+  sources: WeakMap<object, string>
+) {
+  const loadPartial = (name: string) => readTemplate(stack, name);
+  for (const step of steps) {
+    for (const op of step.ops) {
+      if (op.kind !== "WRITE_TEMPLATE") continue;
+      const opPath = sources.get(op) ?? sources.get(step);
+      const text = readTemplate(stack, op.template);
+      if (text === undefined) {
+        diagnostics.push(
+          diag(
+            "E230_TEMPLATE_NOT_FOUND",
+            `Template not found in stack ${String(stack.id)}: ${op.template}${origin(op)}`,
+            "Templates are paths under the stack's templates/ directory.",
+            opPath
+          )
+        );
+        continue;
+      }
+      const vars: Record<string, unknown> = op.vars ?? {};
+      let analysis: TemplateAnalysis;
+      try {
+        analysis = analyzeTemplate(text, loadPartial);
+        renderTemplate(text, vars, loadPartial);
+      } catch (e) {
+        diagnostics.push(
+          diag(
+            "E233_TEMPLATE_INVALID",
+            `Template ${op.template} cannot be rendered for ${op.path}: ${e instanceof Error ? e.message : e}${origin(op)}`,
+            "Fix the template, or the vars the op passes to it.",
+            opPath
+          )
+        );
+        continue;
+      }
+
+      const given = Object.keys(vars);
+      const missing = analysis.required.filter((name) => !given.includes(name));
+      const unused = given.filter((name) => !analysis.required.includes(name) && !analysis.optional.includes(name));
+      if (missing.length > 0) {
+        diagnostics.push(
+          diag(
+            "E231_TEMPLATE_VAR_MISSING",
+            `Template ${op.template} uses ${missing.join(", ")} but ${op.path} does not set it${origin(op)}`,
+            `Add ${missing.map((name) => `vars.${name}`).join(", ")}.`,
+            opPath
+          )
+        );
+      }
+      if (unused.length > 0) {
+        const known = [...analysis.required, ...analysis.optional];
+        diagnostics.push(
+          diag(
+            "E232_TEMPLATE_VAR_UNUSED",
+            `Template ${op.template} never uses ${unused.join(", ")}, set for ${op.path}${origin(op)}`,
+            `It reads: ${known.join(", ") || "nothing"}.`,
+            opPath,
+            "warn"
+          )
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { PlanCheck, PlanOp, PlanStep, WebSpecDecision, WebSpecIntentInvariant } from "@webspec/shared";
+import type { SpecAnalysis } from "./compile";
+import { joinPath } from "./paths";
+
+export type TraceOp = {
+  kind: string;
+  target: string; // written path, or the command for RUN
+  verifiedBy: string[]; // steps whose checks verify it (see analyzeCheckCoverage)
+};
+
+export type TraceCheck = PlanCheck & { gating: boolean };
+
+export type TraceDecision = { id: string; answer?: string; status?: string; confidence?: number };
+
+export type TraceStep = {
+  id: string;
+  decisions: TraceDecision[];
+  ops: TraceOp[];
+  checks: TraceCheck[];
+};
+
+export type InvariantTrace = {
+  id: string;
+  text: string;
+  steps: TraceStep[]; // steps claiming the invariant, in plan order
+  // strong: a claiming step has a check that can fail; weak: only non-gating checks; unenforced: nothing claims it
+  enforcement: "strong" | "weak" | "unenforced";
+};
+
+export type TraceabilityReport = { invariants: InvariantTrace[] };
+
+// A check that cannot fail the run proves nothing: a fuzzy doc check with gate: false only warns
+function isGating(check: PlanCheck) {
+  return !(check.kind === "doc.contains_fuzzy" && check.gate === false);
+}
+
+function opTarget(op: PlanOp) {
+  return op.kind === "RUN" ? op.cmd : joinPath("", op.path);
+}
+
+/**
+ * Map every `intent.invariants` entry to the steps claiming it, the decisions those steps cite, the ops they
+ * perform and the checks that prove them. Works on an analysis, so specs that do not compile can be traced too.
+ */
+export function traceInvariants(analysis: SpecAnalysis): TraceabilityReport {
+  const steps = analysis.steps ?? [];
+  const decisions = new Map<string, WebSpecDecision>((analysis.decisions ?? []).map((d: WebSpecDecision) => [d.id, d]));
+  const coverage = analysis.coverage?.items ?? [];
+
+  const traceStep = (step: PlanStep): TraceStep => ({
+    id: step.id,
+    decisions: (step.decisions ?? []).map((id) => {
+      const d = decisions.get(id);
+      return d ? { id, answer: d.answer, status: d.status, confidence: d.confidence } : { id };
+    }),
+    ops: step.ops.map((op) => {
+      const target = opTarget(op);
+      const item = coverage.find((i) => i.step === step.id && i.kind === op.kind && i.target === target);
+      return { kind: op.kind, target, verifiedBy: item?.verifiedBy ?? [] };
+    }),
+    checks: step.checks.map((check) => ({ ...check, gating: isGating(check) }))
+  });
+
+  const spec = analysis.spec;
+  const declared: WebSpecIntentInvariant[] = (spec && "intent" in spec && spec.intent?.invariants) || [];
+  const invariants = declared.map((inv): InvariantTrace => {
+    const claiming = steps.filter((s: PlanStep) => (s.claims ?? []).includes(String(inv.id))).map(traceStep);
+    const enforcement =
+      claiming.length === 0
+        ? "unenforced"
+        : claiming.some((s) => s.checks.some((c) => c.gating))
+          ? "strong"
+          : "weak";
+    return { id: String(inv.id), text: inv.text, steps: claiming, enforcement };
+  });
+  return { invariants };
+}
+
+function describeCheck(check: TraceCheck) {
+  const { kind, gating, ...rest } = check;
+  const args = Object.values(rest)
+    .filter((v) => v !== undefined)
+    .map((v) => (typeof v === "string" ? `\`${v}\`` : JSON.stringify(v)))
+    .join(" ");
+  return `${kind} ${args}${gating ? "" : " _(non-gating)_"}`;
+}
+
+/** Render the report for auditors: a summary table, then each invariant with its evidence chain. */
+export function formatTraceabilityMarkdown(report: TraceabilityReport): string {
+  const lines = ["# Invariant traceability", ""];
+  if (report.invariants.length === 0) return lines.concat("No invariants declared.", "").join("\n");
+
+  lines.push("| Invariant | Claimed by | Enforcement |", "| --- | --- | --- |");
+  for (const inv of report.invariants) {
+    lines.push(`| ${inv.id} | ${inv.steps.map((s) => s.id).join(", ") || "—"} | ${inv.enforcement} |`);
+  }
+  lines.push("");
+
+  for (const inv of report.invariants) {
+    lines.push(`## ${inv.id}: ${inv.text}`, "");
+    if (inv.enforcement === "unenforced") lines.push("**Unenforced:** no step claims this invariant.", "");
+    if (inv.enforcement === "weak") lines.push("**Weak:** the claiming steps only have non-gating checks.", "");
+    for (const step of inv.steps) {
+      lines.push(`### Step \`${step.id}\``, "");
+      const decisions = step.decisions.map((d) => (d.answer ? `${d.id} (${d.answer}; ${d.status}, ${d.confidence})` : d.id));
+      lines.push(`- **Decisions:** ${decisions.join(", ") || "none"}`);
+      lines.push(`- **Ops:**${step.ops.length ? "" : " none"}`);
+      for (const op of step.ops) {
+        const verified = op.verifiedBy.length ? `verified by ${op.verifiedBy.join(", ")}` : "**unverified**";
+        lines.push(`  - ${op.kind} \`${op.target}\` (${verified})`);
+      }
+      lines.push(`- **Checks:**${step.checks.length ? "" : " none"}`);
+      for (const check of step.checks) lines.push(`  - ${describeCheck(check)}`);
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
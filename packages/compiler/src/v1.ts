@@ -0,0 +1,175 @@
+import type { Diagnostic, PlanOp, PlanStep, StackMacroDef, StackManifest, WebSpec } from "@webspec/shared";
+import { diag } from "./diagnostics";
+import { render } from "./render";
+import { pointer } from "./source";
+
+/**
+ * Synthesize the implicit webspec/v0.1 program (init_ai, scaffold_web, setup_ui, set_routes/add_routes,
+ * quality_gate) from the spec's workspace, ui, routes and quality sections.
+ */
+export function synthesizeV1Steps(
+  spec: WebSpec,
+  manifest: StackManifest,
+  diagnostics: Diagnostic[],
+  sources: WeakMap<object, string>
+) {
+  const steps: PlanStep[] = [];
+  const aiDir = spec.workspace?.aiDir ?? ".ai";
+  const keep = spec.workspace?.keepTracked ?? [`${aiDir}/README.md`, `${aiDir}/.gitkeep`];
+
+  steps.push({
+    id: "init_ai",
+    requires: [],
+    ops: [
+      { kind: "WRITE_FILE", path: `${aiDir}/README.md`, content: "# .ai\\nAgent workspace.\\n" },
+      { kind: "WRITE_FILE", path: `${aiDir}/.gitkeep`, content: "" },
+      {
+        kind: "APPEND_FILE",
+        path: ".gitignore",
+        content: `${aiDir}/*\\n!${aiDir}/README.md\\n!${aiDir}/.gitkeep\\n`
+      }
+    ],
+    checks: [
+      { kind: "file.exists", path: `${aiDir}/README.md` },
+      { kind: "git.trackedOnly", glob: `${aiDir}/**`, allow: keep }
+    ]
+  });
+
+  const scaffoldMacro = manifest.macros?.["stack.scaffold"];
+  if (!scaffoldMacro) {
+    diagnostics.push(
+      diag(
+        "E102_MISSING_MACRO",
+        `Target "${manifest.id}" missing macro "stack.scaffold"`,
+        "Add it to stacks/*/manifest.json.",
+        "/target"
+      )
+    );
+  } else {
+    const vars = { app: "apps/web" };
+    const expanded = scaffoldMacro.expandsTo.flatMap((a): PlanOp[] => {
+      if (a.kind === "run") return [{ kind: "RUN", cmd: render(a.cmd, vars), cwd: a.cwd ? render(a.cwd, vars) : undefined }];
+      if (a.kind === "writeFile") return [{ kind: "WRITE_FILE", path: render(a.path, vars), content: render(a.content, vars) }];
+      if (a.kind === "appendFile") return [{ kind: "APPEND_FILE", path: render(a.path, vars), content: render(a.content, vars) }];
+      if (a.kind === "writeTemplate") {
+        return [{ kind: "WRITE_TEMPLATE", path: render(a.path, vars), template: a.template, vars: a.vars ?? {} }];
+      }
+      return [];
+    });
+
+    steps.push({
+      id: "scaffold_web",
+      requires: ["init_ai"],
+      ops: expanded,
+      checks: [{ kind: "file.exists", path: "apps/web/package.json" }]
+    });
+  }
+
+  const uiComps = spec.ui?.shadcn?.components ?? [];
+  const tw = manifest.macros?.["stack.tailwind_v4_vite"];
+  const init = manifest.macros?.["stack.shadcn_init"];
+  const add = manifest.macros?.["stack.shadcn_add"];
+  const vars = { app: "apps/web", components: uiComps };
+
+  // The shadcn macros only run commands
+  const runs = (macro: StackMacroDef) =>
+    macro.expandsTo.flatMap((a): PlanOp[] => (a.kind === "run" ? [{ kind: "RUN", cmd: render(a.cmd, vars) }] : []));
+
+  const ops: PlanOp[] = [];
+  if (tw)
+    ops.push(
+      ...tw.expandsTo.flatMap((a): PlanOp[] =>
+        a.kind === "run"
+          ? [{ kind: "RUN", cmd: render(a.cmd, vars) }]
+          : a.kind === "writeFile"
+            ? [{ kind: "WRITE_FILE", path: render(a.path, vars), content: a.content }]
+            : []
+      )
+    );
+  if (init) ops.push(...runs(init));
+  if (add && uiComps.length) ops.push(...runs(add));
+
+  if (ops.length) {
+    const setupUi: PlanStep = {
+      id: "setup_ui",
+      requires: ["scaffold_web"],
+      ops,
+      checks: [{ kind: "cmd.ok", cmd: "pnpm -C apps/web --version" }]
+    };
+    sources.set(setupUi, "/ui");
+    steps.push(setupUi);
+  }
+
+  if (spec.routes && spec.routes.length) {
+    const setRoutes = manifest.macros?.["stack.set_routes"];
+    if (setRoutes) {
+      const v = { app: "apps/web", routes: JSON.stringify(spec.routes) };
+      const expanded = setRoutes.expandsTo.flatMap((a): PlanOp[] => {
+        if (a.kind === "writeTemplate") {
+          return [
+            {
+              kind: "WRITE_TEMPLATE",
+              path: render(a.path, { app: v.app }),
+              template: a.template,
+              vars: { ROUTES: spec.routes }
+            }
+          ];
+        }
+        if (a.kind === "run") return [{ kind: "RUN", cmd: render(a.cmd, v) }];
+        return [];
+      });
+
+      steps.push({
+        id: "set_routes",
+        requires: ops.length ? ["setup_ui"] : ["scaffold_web"],
+        ops: expanded,
+        checks: spec.routes.map((r) => ({ kind: "route.exists", route: r.path }))
+      });
+    } else if (manifest.macros?.["stack.add_route"]) {
+      const addRoute = manifest.macros["stack.add_route"];
+      const addOps: PlanOp[] = [];
+      for (const r of spec.routes) {
+        const dir = r.path === "/" ? "" : r.path;
+        for (const a of addRoute.expandsTo) {
+          if (a.kind === "writeTemplate") {
+            addOps.push({
+              kind: "WRITE_TEMPLATE",
+              path: render(a.path, { app: "apps/web", ROUTE_DIR: dir }),
+              template: a.template,
+              vars: { PAGE: r.page }
+            });
+          }
+        }
+      }
+      steps.push({
+        id: "add_routes",
+        requires: ops.length ? ["setup_ui"] : ["scaffold_web"],
+        ops: addOps,
+        checks: spec.routes.map((r) => ({ kind: "route.exists", route: r.path }))
+      });
+    } else {
+      diagnostics.push(
+        diag(
+          "E102_MISSING_MACRO",
+          `Target "${manifest.id}" has no routing macro (stack.set_routes or stack.add_route).`,
+          "Add a routing macro to the stack manifest.",
+          "/routes"
+        )
+      );
+    }
+  }
+
+  const gates = spec.quality?.gates ?? [];
+  if (gates.length) {
+    const gateOps = gates.map((c): PlanOp => ({ kind: "RUN", cmd: c }));
+    gateOps.forEach((op, i) => sources.set(op, pointer(["quality", "gates", i])));
+    steps.push({
+      id: "quality_gate",
+      requires: [steps[steps.length - 1]?.id ?? "scaffold_web"],
+      ops: gateOps,
+      checks: gates.map((c) => ({ kind: "cmd.ok", cmd: c }))
+    });
+  }
+
+  return steps;
+}
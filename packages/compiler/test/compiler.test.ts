@@ -1,5 +1,49 @@
 import { describe, it, expect } from "vitest";
-import { compileWebSpec } from "../src";
+import {
+  analyzeWebSpec,
+  compileWebSpec,
+  formatTraceabilityMarkdown,
+  lintWebSpec,
+  migrateWebSpec,
+  traceInvariants
+} from "../src";
+import { buildDecisionTree, planDigest } from "@webspec/shared";
+import type { DecisionTree, Diagnostic } from "@webspec/shared";
+import viteStack from "../../../stacks/react-vite-shadcn-tailwind4/manifest.json";
+
+const registry = { [viteStack.id]: viteStack };
+
+function v2Spec(steps: string) {
+  return `
+lang: webspec/v0.2
+target: react-vite-shadcn-tailwind4
+project: { name: demo }
+intent:
+  summary: "Demo"
+  invariants:
+    - { id: INV-01, text: "Plan stays on track" }
+decisions:
+  - id: DEC-01
+    question: "Which tool?"
+    answer: "Vite"
+    rationale: "Fast"
+    status: final
+    confidence: 0.9
+steps:
+${steps}`;
+}
+
+function step(id: string, requires: string[] = []) {
+  return `
+  - id: ${id}
+    requires: [${requires.join(", ")}]
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - writeFile: { path: "apps/${id}.txt", content: "x" }
+    ensures:
+      - exists: "apps/${id}.txt"`;
+}
 
 describe("webspec compiler", () => {
   it("fails on unknown target", () => {
@@ -15,4 +59,636 @@ workspace: { aiDir: ".ai", keepTracked: [".ai/README.md", ".ai/.gitkeep"] }
     expect(res.ok).toBe(false);
     expect(res.diagnostics[0].code).toBe("E100_UNKNOWN_TARGET");
   });
+
+  it("orders steps topologically, keeping declaration order among ready steps", () => {
+    const res = compileWebSpec({
+      sourceText: v2Spec(step("c", ["b"]) + step("a") + step("b", ["a"]) + step("d")),
+      registry
+    });
+    expect(res.ok).toBe(true);
+    expect(res.plan.steps.map((s) => s.id)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("rejects unknown and duplicate step ids in the requires graph", () => {
+    const res = compileWebSpec({ sourceText: v2Spec(step("a", ["nope"]) + step("a")), registry });
+    expect(res.ok).toBe(false);
+    const codes = res.diagnostics.map((d) => d.code);
+    expect(codes).toContain("E500_DUPLICATE_STEP_ID");
+    expect(codes).toContain("E501_UNKNOWN_STEP_REQUIRE");
+  });
+
+  it("reports requires cycles with the full cycle path", () => {
+    const res = compileWebSpec({ sourceText: v2Spec(step("a", ["c"]) + step("b", ["a"]) + step("c", ["b"])), registry });
+    expect(res.ok).toBe(false);
+    const cycle = res.diagnostics.find((d) => d.code === "E502_STEP_CYCLE");
+    expect(cycle?.message).toContain("a -> c -> b -> a");
+  });
+
+  it("locates diagnostics with JSON pointers and YAML line/column ranges", () => {
+    const res = compileWebSpec({ sourceText: v2Spec(step("a", ["nope"])), registry });
+    const d = res.diagnostics.find((x) => x.code === "E501_UNKNOWN_STEP_REQUIRE");
+    expect(d?.path).toBe("/steps/0/requires/0");
+    expect(d?.range?.start).toMatchObject({ line: 19, col: 16 });
+  });
+
+  it("reports each schema violation at its source location", () => {
+    const res = compileWebSpec({ sourceText: v2Spec(step("a")).replace("claims: [INV-01]", "claims: INV-01"), registry });
+    expect(res.ok).toBe(false);
+    expect(res.diagnostics[0]).toMatchObject({ code: "E001_PARSE", path: "/steps/0/claims" });
+    expect(res.diagnostics[0].range?.start.line).toBe(20);
+  });
+
+  describe("write conflicts", () => {
+    const writer = (id: string, requires: string[], action: string) => `
+  - id: ${id}
+    requires: [${requires.join(", ")}]
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - ${action}
+    ensures:
+      - exists: apps/notes.md`;
+    const write = 'writeFile: { path: apps/notes.md, content: "x" }';
+    const append = 'appendFile: { path: apps/notes.md, content: "y" }';
+    const found = (steps: string) =>
+      compileWebSpec({ sourceText: v2Spec(steps), registry }).diagnostics.map((d) => [d.code, d.severity, d.path]);
+
+    it("rejects writes to the same path from steps that are not ordered", () => {
+      expect(found(writer("a", [], write) + writer("b", [], append))).toEqual([
+        ["E503_UNORDERED_WRITE_CONFLICT", "error", "/steps/1/actions/0"]
+      ]);
+      expect(found(writer("a", [], append) + writer("b", [], append))[0]).toEqual([
+        "E503_UNORDERED_WRITE_CONFLICT",
+        "warn",
+        "/steps/1/actions/0"
+      ]);
+      expect(found(writer("a", [], write) + writer("b", ["a"], append))).toEqual([]);
+    });
+
+    it("warns when a later write clobbers an append", () => {
+      expect(found(writer("a", [], append) + writer("b", ["a"], write))).toEqual([
+        ["E504_WRITE_CLOBBERS_APPEND", "warn", "/steps/1/actions/0"]
+      ]);
+    });
+  });
+
+  describe("check coverage", () => {
+    const spec = v2Spec(`
+  - id: scaffold
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - run: "pnpm -C apps/web install"
+      - writeFile: { path: apps/web/a.txt, content: "a" }
+      - writeFile: { path: apps/web/b.txt, content: "b" }
+    ensures:
+      - exists: apps/web/a.txt`);
+
+    it("lists written paths and commands no check verifies", () => {
+      const { coverage } = analyzeWebSpec({ sourceText: spec, registry });
+      expect(coverage?.unverified.map((i) => i.target)).toEqual(["apps/web/b.txt"]);
+      expect(coverage?.ratio).toBeCloseTo(2 / 3);
+    });
+
+    it("fails below the manifest's coverage policy", () => {
+      const strict = { [viteStack.id]: { ...viteStack, policy: { checkCoverage: { minRatio: 0.9 } } } };
+      const res = compileWebSpec({ sourceText: spec, registry: strict });
+      expect(res.ok).toBe(false);
+      expect(res.diagnostics.map((d) => [d.code, d.path])).toEqual([["E440_UNVERIFIED_WRITE", "/steps/0/actions/2"]]);
+      const lenient = { [viteStack.id]: { ...viteStack, policy: { checkCoverage: { minRatio: 0.5 } } } };
+      expect(compileWebSpec({ sourceText: spec, registry: lenient }).ok).toBe(true);
+    });
+  });
+
+  describe("decision policy", () => {
+    const withPolicy = (policy: object) => ({ [viteStack.id]: { ...viteStack, policy: { decisions: policy } } });
+    const codes = (res: { diagnostics: Diagnostic[] }) => res.diagnostics.map((d) => [d.code, d.path]);
+
+    it("enforces the minimum confidence of final decisions", () => {
+      const res = compileWebSpec({ sourceText: v2Spec(step("a")), registry: withPolicy({ minConfidence: 0.95 }) });
+      expect(codes(res)).toEqual([["E415_DECISION_LOW_CONFIDENCE", "/decisions/0/confidence"]]);
+      expect(compileWebSpec({ sourceText: v2Spec(step("a")), registry: withPolicy({ minConfidence: 0.7 }) }).ok).toBe(true);
+    });
+
+    it("lets a spec tighten the stack policy", () => {
+      const spec = v2Spec(step("a")).replace("steps:\n", "policy: { decisions: { requireEvidenceForWrites: true } }\nsteps:\n");
+      const res = compileWebSpec({ sourceText: spec, registry: withPolicy({ minConfidence: 0.5 }) });
+      expect(codes(res)).toEqual([["E416_DECISION_EVIDENCE_REQUIRED", "/steps/0/decisions/0"]]);
+    });
+
+    it("resolves evidence to files and headings", () => {
+      const spec = v2Spec(step("a")).replace(
+        "    confidence: 0.9\n",
+        '    confidence: 0.9\n    evidence: ["docs/adr.md#Why Vite", "docs/adr.md#why-not-webpack", "docs/adr.md#Missing", "https://vite.dev"]\n'
+      );
+      const readFile = (p: string) => (p === "docs/adr.md" ? "# ADR\n\n## Why Vite\n\n## Why not Webpack?\n" : undefined);
+      const res = compileWebSpec({ sourceText: spec, registry: withPolicy({ requireEvidenceForWrites: true }), readFile });
+      expect(codes(res)).toEqual([["E417_EVIDENCE_UNRESOLVED", "/decisions/0/evidence/2"]]);
+      expect(compileWebSpec({ sourceText: spec, registry, readFile: () => undefined }).diagnostics).toHaveLength(3);
+    });
+  });
+
+  describe("decision supersession", () => {
+    const successor = (status: string) =>
+      v2Spec(step("a")).replace(
+        "steps:\n",
+        `  - { id: DEC-02, supersedes: DEC-01, question: "Which tool?", answer: "Rsbuild", rationale: "Faster", status: ${status}, confidence: 0.8 }\nsteps:\n`
+      );
+
+    it("rejects steps citing a superseded decision and points them at the replacement", () => {
+      const res = compileWebSpec({ sourceText: successor("final"), registry });
+      expect(res.diagnostics.map((d) => [d.code, d.path, d.fix?.edits])).toEqual([
+        ["E418_STEP_DECISION_SUPERSEDED", "/steps/0/decisions/0", [{ op: "set", path: "/steps/0/decisions/0", value: "DEC-02" }]]
+      ]);
+      const fixed = lintWebSpec({ sourceText: successor("provisional"), registry, fix: true });
+      expect(fixed.ok).toBe(true);
+      expect(fixed.fixed.map((d) => d.code)).toEqual(["E418_STEP_DECISION_SUPERSEDED", "E426_STEP_DECISION_NOT_FINAL"]);
+      expect(fixed.sourceText).toContain("decisions: [ DEC-02 ]");
+    });
+
+    it("rejects deprecated decisions without offering to finalize them", () => {
+      const res = compileWebSpec({ sourceText: v2Spec(step("a")).replace("status: final", "status: deprecated"), registry });
+      expect(res.diagnostics.map((d) => [d.code, d.fix])).toEqual([["E419_STEP_DECISION_DEPRECATED", undefined]]);
+    });
+  });
+
+  describe("assumptions", () => {
+    const withAssumption = (assumption: string) =>
+      v2Spec(step("a")).replace("decisions:\n", `assumptions:\n  - ${assumption}\ndecisions:\n`);
+
+    it("turns verifiedBy ensures into pre-flight checks instead of trusting status", () => {
+      const res = compileWebSpec({
+        sourceText: withAssumption(`{ id: DEC-01, text: "A Node repo", status: unverified, verifiedBy: [{ exists: package.json }] }`),
+        registry
+      });
+      expect(res.ok).toBe(true);
+      expect(res.plan.assumptions).toEqual([
+        { id: "DEC-01", text: "A Node repo", checks: [{ kind: "file.exists", path: "package.json" }] }
+      ]);
+    });
+
+    it("still requires asserted assumptions to be marked verified", () => {
+      const res = compileWebSpec({ sourceText: withAssumption(`{ id: DEC-01, text: "A Node repo", status: unverified }`), registry });
+      expect(res.diagnostics.map((d) => [d.code, d.path])).toEqual([["E410_UNVERIFIED_ASSUMPTION", "/assumptions/0/status"]]);
+      const asserted = compileWebSpec({ sourceText: withAssumption(`{ id: DEC-01, text: "A Node repo", status: verified }`), registry });
+      expect(asserted.plan.assumptions).toEqual([{ id: "DEC-01", text: "A Node repo", checks: [] }]);
+    });
+  });
+
+  describe("invariant traceability", () => {
+    const spec = v2Spec(
+      step("a") +
+        `
+  - id: docs
+    requires: [a]
+    claims: [INV-02]
+    decisions: [DEC-01]
+    actions:
+      - appendFile: { path: apps/a.txt, content: "more" }
+    ensures:
+      - docContainsFuzzy: { path: README.md, text: "Plan stays on track", gate: false }`
+    ).replace("    - { id: INV-01", '    - { id: INV-02, text: "Docs explain the plan" }\n    - { id: INV-01');
+
+    it("maps invariants to steps, decisions, ops and checks", () => {
+      const report = traceInvariants(analyzeWebSpec({ sourceText: spec, registry }));
+      const inv01 = report.invariants.find((i) => i.id === "INV-01")!;
+      expect(inv01.enforcement).toBe("strong");
+      expect(inv01.steps).toEqual([
+        {
+          id: "a",
+          decisions: [{ id: "DEC-01", answer: "Vite", status: "final", confidence: 0.9 }],
+          ops: [{ kind: "WRITE_FILE", target: "apps/a.txt", verifiedBy: ["a"] }],
+          checks: [{ kind: "file.exists", path: "apps/a.txt", gating: true }]
+        }
+      ]);
+    });
+
+    it("flags invariants proven only by non-gating checks", () => {
+      const report = traceInvariants(analyzeWebSpec({ sourceText: spec, registry }));
+      expect(report.invariants.map((i) => [i.id, i.enforcement])).toEqual([
+        ["INV-02", "weak"],
+        ["INV-01", "strong"]
+      ]);
+      const md = formatTraceabilityMarkdown(report);
+      expect(md).toContain("| INV-02 | docs | weak |");
+      expect(md).toContain("  - APPEND_FILE `apps/a.txt` (verified by a)");
+      expect(md).toContain("doc.contains_fuzzy `README.md` `Plan stays on track` 0.8 false _(non-gating)_");
+    });
+  });
+
+  describe("non-goals", () => {
+    const withNonGoal = (forbid: string, actions: string) =>
+      v2Spec(`
+  - id: a
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+${actions}
+    ensures:
+      - exists: apps/web/package.json`).replace(
+        "  invariants:\n",
+        `  nonGoals:\n    - { id: NG-01, text: "No server code", forbid: ${forbid} }\n  invariants:\n`
+      );
+    const found = (spec: string) => compileWebSpec({ sourceText: spec, registry }).diagnostics.map((d) => [d.code, d.path]);
+
+    it("rejects ops that write forbidden paths or run forbidden commands", () => {
+      const spec = withNonGoal(
+        '{ paths: ["apps/api/**"], commands: ["pnpm -C * prisma *"] }',
+        `      - writeFile: { path: apps/api/server.ts, content: "x" }
+      - run: "pnpm -C apps/web prisma init"
+      - run: "pnpm -C apps/web install"`
+      );
+      expect(found(spec)).toEqual([
+        ["E330_NONGOAL_PATH", "/steps/0/actions/0"],
+        ["E331_NONGOAL_COMMAND", "/steps/0/actions/1"]
+      ]);
+    });
+
+    it("rejects forbidden dependencies added by commands or package.json writes", () => {
+      const spec = withNonGoal(
+        '{ dependencies: ["express", "@nestjs/*"] }',
+        `      - run: "pnpm -C apps/web add zod express@4"
+      - writeFile: { path: apps/web/package.json, content: '{"dependencies":{"@nestjs/core":"^10"}}' }`
+      );
+      expect(found(spec)).toEqual([
+        ["E332_NONGOAL_DEPENDENCY", "/steps/0/actions/0"],
+        ["E332_NONGOAL_DEPENDENCY", "/steps/0/actions/1"]
+      ]);
+    });
+
+    it("hands non-goal rules to the runtime", () => {
+      const spec = withNonGoal('{ dependencies: ["express"] }', '      - run: "pnpm -C apps/web install"');
+      const res = compileWebSpec({ sourceText: spec, registry });
+      expect(res.plan.nonGoals).toEqual([{ id: "NG-01", text: "No server code", forbid: { dependencies: ["express"] } }]);
+    });
+  });
+
+  describe("provenance", () => {
+    const templateStep = `
+  - id: a
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - writeTemplate: { path: apps/web/src/routes.generated.tsx, template: vite/routes.generated.tsx.tpl, vars: { ROUTES_JSON: "[]" } }
+    ensures:
+      - exists: apps/web/src/routes.generated.tsx`;
+    const compile = (opts: { text?: string; template?: string; tree?: DecisionTree; stack?: Record<string, unknown> } = {}) =>
+      compileWebSpec({
+        sourceText: opts.text ?? v2Spec(templateStep),
+        registry: { [viteStack.id]: opts.stack ?? viteStack },
+        decisionsTree: opts.tree,
+        readTemplate: (_stack, name) =>
+          name === "vite/routes.generated.tsx.tpl" ? (opts.template ?? "{{ROUTES_JSON}}") : undefined
+      }).plan;
+
+    it("hashes the canonical spec, so formatting and comments do not change specHash", () => {
+      const reformatted = v2Spec(templateStep).replace("project: { name: demo }", "# the demo\nproject:\n  name: demo");
+      expect(compile({ text: reformatted }).specHash).toBe(compile().specHash);
+      expect(compile({ text: v2Spec(templateStep).replace("Demo", "Demo 2") }).specHash).not.toBe(compile().specHash);
+    });
+
+    it("records the manifest, template and decision tree hashes under a plan digest", () => {
+      const plan = compile();
+      expect(Object.keys(plan.provenance.templates)).toEqual(["vite/routes.generated.tsx.tpl"]);
+      expect(plan.provenance.decisionTree).toBeUndefined();
+      expect(plan.provenance.digest).toBe(planDigest(plan));
+
+      const edited = compile({ template: "{{ROUTES_JSON}}\n" });
+      expect(edited.provenance.templates).not.toEqual(plan.provenance.templates);
+      expect(edited.provenance.digest).not.toBe(plan.provenance.digest);
+      const tree = buildDecisionTree([
+        { id: "DEC-01", question: "Which tool?", answer: "Vite", rationale: "Fast", status: "final", confidence: 0.9 }
+      ]);
+      expect(compile({ tree }).provenance.decisionTree).toBeDefined();
+      // Where the stack lives on disk is not an input
+      expect(compile({ stack: { ...viteStack, __stackRoot: "/elsewhere" } }).provenance).toEqual(plan.provenance);
+    });
+  });
+
+  describe("templates", () => {
+    const routesTemplate = "const ROUTES = [\n{{#each ROUTES}}\n  {{> vite/route.tpl}}\n{{/each}}\n];\n<main style={{ padding: 24 }} />\n";
+    const partials: Record<string, string> = { "vite/route.tpl": "{ path: {{path | json}}, page: {{page | json}} },\n" };
+    const found = (actions: string, template = routesTemplate) =>
+      compileWebSpec({
+        sourceText: v2Spec(`
+  - id: a
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+${actions}
+    ensures:
+      - exists: apps/web/src/routes.generated.tsx`),
+        registry,
+        readTemplate: (_stack, name) => (name === "vite/routes.generated.tsx.tpl" ? template : partials[name])
+      }).diagnostics.map((d) => [d.code, d.severity, d.path]);
+
+    it("rejects templates missing from the stack", () => {
+      const missing = "      - writeTemplate: { path: apps/web/src/routes.generated.tsx, template: vite/nope.tpl, vars: {} }";
+      expect(found(missing)).toEqual([["E230_TEMPLATE_NOT_FOUND", "error", "/steps/0/actions/0"]]);
+    });
+
+    it("reports placeholders without vars and vars without placeholders", () => {
+      const d = found(
+        "      - writeTemplate: { path: apps/web/src/routes.generated.tsx, template: vite/routes.generated.tsx.tpl, vars: { PAGE: Home } }"
+      );
+      expect(d).toEqual([
+        ["E231_TEMPLATE_VAR_MISSING", "error", "/steps/0/actions/0"],
+        ["E232_TEMPLATE_VAR_UNUSED", "warn", "/steps/0/actions/0"]
+      ]);
+    });
+
+    it("checks the templates stack macros render", () => {
+      const routes = '      - macro: { name: stack.set_routes, args: { app: apps/web, routes: [{ path: "/", page: Home }] } }';
+      expect(found(routes)).toEqual([]);
+      expect(found(routes, routesTemplate + "{{TITLE}}")).toEqual([["E231_TEMPLATE_VAR_MISSING", "error", "/steps/0/actions/0"]]);
+    });
+
+    it("previews the render to catch template errors before the run", () => {
+      const write = (vars: string) =>
+        `      - writeTemplate: { path: apps/web/src/routes.generated.tsx, template: vite/routes.generated.tsx.tpl, vars: ${vars} }`;
+      expect(found(write('{ ROUTES: "/" }'))).toEqual([["E233_TEMPLATE_INVALID", "error", "/steps/0/actions/0"]]);
+      expect(found(write("{ ROUTES: [] }"), routesTemplate.replace("vite/route.tpl", "vite/nope.tpl"))).toEqual([
+        ["E233_TEMPLATE_INVALID", "error", "/steps/0/actions/0"]
+      ]);
+      expect(found(write("{ ROUTES: [] }"), "{{#each ROUTES}}")).toEqual([["E233_TEMPLATE_INVALID", "error", "/steps/0/actions/0"]]);
+    });
+  });
+
+  describe("lint --fix", () => {
+    it("repairs mechanical mistakes and keeps comments", () => {
+      const spec = v2Spec(step("a").replace("    claims: [INV-01]\n", "") + step("b"))
+        .replace("status: final", "status: provisional # revisit")
+        .replace("project: { name: demo }", "project: { name: demo }\neffects:\n  writeScopes: [apps/a.txt]");
+      const res = lintWebSpec({ sourceText: spec, registry, fix: true });
+      expect(res.fixed.map((d) => d.code).sort()).toEqual([
+        "E302_SCOPE_VIOLATION",
+        "E420_STEP_NO_CLAIMS",
+        "E426_STEP_DECISION_NOT_FINAL",
+        "E426_STEP_DECISION_NOT_FINAL"
+      ]);
+      expect(res.ok).toBe(true);
+      expect(res.sourceText).toContain("status: final # revisit");
+      expect(res.sourceText).toContain("writeScopes: [ apps/a.txt, apps/b.txt ]");
+      expect(compileWebSpec({ sourceText: res.sourceText, registry }).ok).toBe(true);
+    });
+
+    it("claims unclaimed invariants in the last step with actions", () => {
+      const spec = v2Spec(step("a") + step("b")).replace(
+        '    - { id: INV-01, text: "Plan stays on track" }',
+        '    - { id: INV-01, text: "Plan stays on track" }\n    - { id: INV-02, text: "Docs stay current" }'
+      );
+      const res = lintWebSpec({ sourceText: spec, registry, fix: true });
+      expect(res.fixed.map((d) => d.code)).toEqual(["E422_UNCLAIMED_INVARIANT"]);
+      expect(res.sourceText).toMatch(/id: b\n.*\n {4}claims: \[ INV-01, INV-02 \]/);
+    });
+  });
+
+  describe("imports", () => {
+    const shared = `
+intent:
+  invariants:
+    - { id: INV-SHARED, text: "Shared invariant" }
+steps:
+${step("init_workspace").replace("claims: [INV-01]", "claims: [INV-SHARED]")}
+`;
+    const root = (extra = "") =>
+      v2Spec(step("a", ["init_workspace"])).replace("project: { name: demo }", `project: { name: demo }\nimports: [shared/base.yaml]${extra}`);
+
+    it("merges imported fragments ahead of the root spec", () => {
+      const res = compileWebSpec({
+        sourceText: root(),
+        registry,
+        sourcePath: "specs/app.yaml",
+        readFile: (p) => ({ "specs/shared/base.yaml": shared })[p]
+      });
+      expect(res.diagnostics.filter((d) => d.severity === "error")).toEqual([]);
+      expect(res.plan.steps.map((s) => s.id)).toEqual(["init_workspace", "a"]);
+    });
+
+    it("reports id collisions in the file that introduces them", () => {
+      const res = compileWebSpec({
+        sourceText: root(),
+        registry,
+        sourcePath: "specs/app.yaml",
+        readFile: (p) => ({ "specs/shared/base.yaml": shared.replace("INV-SHARED", "INV-01") })[p]
+      });
+      expect(res.ok).toBe(false);
+      const d = res.diagnostics.find((x) => x.code === "E602_IMPORT_COLLISION");
+      expect(d).toMatchObject({ path: "/intent/invariants/0" });
+      expect(d?.file).toBeUndefined();
+      expect(d?.range?.start.line).toBe(9);
+    });
+
+    it("maps diagnostics on imported steps back to the fragment", () => {
+      const res = compileWebSpec({
+        sourceText: root(),
+        registry,
+        sourcePath: "specs/app.yaml",
+        readFile: (p) => ({ "specs/shared/base.yaml": shared.replace("decisions: [DEC-01]", "decisions: [DEC-XX]") })[p]
+      });
+      const d = res.diagnostics.find((x) => x.code === "E425_STEP_DECISION_MISSING");
+      expect(d).toMatchObject({ file: "specs/shared/base.yaml", path: "/steps/0/decisions/0" });
+      expect(d?.range?.start.line).toBe(10);
+    });
+
+    it("detects import cycles", () => {
+      const res = compileWebSpec({
+        sourceText: root(),
+        registry,
+        sourcePath: "specs/app.yaml",
+        readFile: (p) => ({ "specs/shared/base.yaml": "imports: [../app.yaml]\n" })[p]
+      });
+      const d = res.diagnostics.find((x) => x.code === "E604_IMPORT_CYCLE");
+      expect(d?.message).toContain("specs/app.yaml -> specs/shared/base.yaml -> specs/app.yaml");
+    });
+
+    it("covers imported files in specHash", () => {
+      const compile = (text: string) =>
+        compileWebSpec({ sourceText: root(), registry, sourcePath: "specs/app.yaml", readFile: () => text }).plan.specHash;
+      expect(compile(shared)).not.toBe(compile(shared.replace("Shared invariant", "Shared invariant!")));
+    });
+  });
+
+  describe("nested macros", () => {
+    const macroStep = (name: string, args: string) => `
+  - id: ui
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - macro: { name: ${name}, args: ${args} }
+    ensures:
+      - exists: apps/web/package.json`;
+
+    it("expands macros that call other macros and traces the chain", () => {
+      const res = compileWebSpec({
+        sourceText: v2Spec(macroStep("stack.setup_ui", "{ app: apps/web, components: [button, card] }")),
+        registry
+      });
+      expect(res.ok).toBe(true);
+      const ops = res.plan.steps[0].ops;
+      expect(ops.map((o) => ("cmd" in o ? o.cmd : o.path))).toEqual([
+        "pnpm -C apps/web add tailwindcss @tailwindcss/vite",
+        "apps/web/src/index.css",
+        "pnpm -C apps/web dlx shadcn@latest init -y",
+        "pnpm -C apps/web dlx shadcn@latest add button card"
+      ]);
+      expect(ops[3].via).toEqual(["stack.setup_ui", "stack.shadcn_add"]);
+    });
+
+    it("reports macro expansion cycles", () => {
+      const cyclic = {
+        ...viteStack,
+        macros: {
+          "x.a": { args: {}, expandsTo: [{ kind: "macro", name: "x.b" }] },
+          "x.b": { args: {}, expandsTo: [{ kind: "macro", name: "x.a" }] }
+        }
+      };
+      const res = compileWebSpec({ sourceText: v2Spec(macroStep("x.a", "{}")), registry: { [viteStack.id]: cyclic } });
+      const d = res.diagnostics.find((x) => x.code === "E202_MACRO_CYCLE");
+      expect(d?.message).toContain("x.a -> x.b -> x.a");
+      expect(d?.path).toBe("/steps/0/actions/0/macro/name");
+    });
+  });
+
+  describe("macro args", () => {
+    const scaffold = (args: string) =>
+      v2Spec(`
+  - id: scaffold
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - macro: { name: stack.shadcn_add, args: ${args} }
+    ensures:
+      - exists: apps/web/package.json`);
+    const codes = (args: string) => compileWebSpec({ sourceText: scaffold(args), registry }).diagnostics.map((d) => d.code);
+
+    it("normalizes path args and confines them to the repo", () => {
+      const res = compileWebSpec({ sourceText: scaffold("{ app: ./apps//web/, components: [button] }"), registry });
+      expect(res.plan.steps[0].ops[0].cmd).toBe("pnpm -C apps/web dlx shadcn@latest add button");
+      expect(codes("{ app: ../../etc, components: [button] }")).toContain("E206_MACRO_ARG_PATH_ESCAPES");
+      expect(codes("{ app: /etc, components: [button] }")).toContain("E206_MACRO_ARG_PATH_ESCAPES");
+    });
+
+    it("rejects mistyped and unknown args", () => {
+      expect(codes("{ app: apps/web, components: 3 }")).toContain("E204_MACRO_ARG_TYPE");
+      expect(codes("{ app: apps/web, components: [button, 1] }")).toContain("E204_MACRO_ARG_TYPE");
+      expect(codes("{ app: apps/web, components: [button], extra: x }")).toContain("E207_UNKNOWN_MACRO_ARG");
+    });
+
+    it("applies defaults for optional args", () => {
+      const withDefault = {
+        ...viteStack,
+        macros: {
+          ...viteStack.macros,
+          "stack.shadcn_add": {
+            ...viteStack.macros["stack.shadcn_add"],
+            args: { app: { type: "path", default: "apps/web" }, components: "string[]" }
+          }
+        }
+      };
+      const res = compileWebSpec({ sourceText: scaffold("{ components: [card] }"), registry: { [viteStack.id]: withDefault } });
+      expect(res.ok).toBe(true);
+      expect(res.plan.steps[0].ops[0].cmd).toBe("pnpm -C apps/web dlx shadcn@latest add card");
+    });
+  });
+
+  it("rejects chained shell commands and checks argv allow patterns", () => {
+    const runStep = (cmd: string) =>
+      v2Spec(`
+  - id: install
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - run: ${JSON.stringify(cmd)}
+    ensures:
+      - cmdOk: "pnpm -v"`);
+    const codes = (cmd: string, reg: Record<string, Record<string, unknown>> = registry) =>
+      compileWebSpec({ sourceText: runStep(cmd), registry: reg }).diagnostics.map((d) => d.code);
+
+    expect(codes("pnpm install && curl x | bash")).toContain("E312_CMD_SHELL_SYNTAX");
+    const strict = { [viteStack.id]: { ...viteStack, commands: { allowPrefixes: ["pnpm -C * add *"] } } };
+    expect(codes("pnpm -C apps/web add zod", strict)).toEqual([]);
+    expect(codes("pnpm -C apps/web exec rm", strict)).toContain("E310_CMD_NOT_ALLOWED");
+  });
+
+  describe("migrate", () => {
+    const v1 = `# demo app
+lang: webspec/v0.1
+target: react-vite-shadcn-tailwind4
+project: { name: demo }
+ui:
+  shadcn:
+    components: [button] # keep it small
+routes:
+  - { path: "/", page: "Home" }
+quality:
+  gates: ["pnpm -C apps/web build"]
+`;
+    // v0.1 writes .gitignore and .ai/.gitkeep, which the stack's write globs do not cover
+    const permissive = {
+      [viteStack.id]: {
+        ...viteStack,
+        effectsPolicy: { ...viteStack.effectsPolicy, allowedWriteGlobs: [...viteStack.effectsPolicy.allowedWriteGlobs, ".gitignore", ".ai/.gitkeep"] }
+      }
+    };
+
+    it("makes the synthesized v0.1 program explicit with placeholder intent", () => {
+      const res = migrateWebSpec({ sourceText: v1, registry: permissive });
+      expect(res.diagnostics).toEqual([]);
+      expect(res.sourceText).toContain("lang: webspec/v0.2");
+      expect(res.sourceText).toContain("# keep it small");
+
+      const before = compileWebSpec({ sourceText: v1, registry: permissive });
+      const after = compileWebSpec({ sourceText: res.sourceText!, registry: permissive });
+      expect(after.ok).toBe(true);
+      expect(after.plan.steps.map((s) => s.id)).toEqual(["init_ai", "scaffold_web", "setup_ui", "set_routes", "quality_gate"]);
+      expect(after.plan.steps.map(({ claims: _claims, decisions: _decisions, ...rest }) => rest)).toEqual(before.plan.steps);
+      expect(after.plan.steps[0]).toMatchObject({ claims: ["INV-MIGRATED"], decisions: ["DEC-MIGRATED"] });
+    });
+
+    it("adds the placeholder decision to the tree so the migrated spec compiles against it", () => {
+      const tree = buildDecisionTree([
+        { id: "DEC-01", parent: null, question: "Which tool?", answer: "Vite", rationale: "Fast", status: "final", confidence: 0.9 }
+      ]);
+      const res = migrateWebSpec({ sourceText: v1, registry: permissive, decisionsTree: tree });
+      expect(res.ok).toBe(true);
+      expect(Object.keys(res.decisionsTree!.nodes)).toEqual(["DEC-01", "DEC-MIGRATED"]);
+
+      const stale = compileWebSpec({ sourceText: res.sourceText!, registry: permissive, decisionsTree: tree });
+      expect(stale.diagnostics.map((d) => d.code)).toContain("E431_DECISION_NOT_IN_TREE");
+      const compiled = compileWebSpec({ sourceText: res.sourceText!, registry: permissive, decisionsTree: res.decisionsTree });
+      expect(compiled.diagnostics).toEqual([]);
+      expect(compiled.ok).toBe(true);
+
+      // Migrating again leaves the tree as it is
+      const again = migrateWebSpec({ sourceText: v1, registry: permissive, decisionsTree: res.decisionsTree });
+      expect(again.decisionsTree).toEqual(res.decisionsTree);
+    });
+
+    it("compiles the migrated YAML against the tree it writes", () => {
+      const tree = buildDecisionTree([]);
+      const res = migrateWebSpec({ sourceText: v1, registry: permissive, decisionsTree: tree });
+      expect(res.ok).toBe(true);
+      const compiled = compileWebSpec({ sourceText: res.sourceText!, registry: permissive, decisionsTree: res.decisionsTree });
+      expect(compiled.diagnostics).toEqual([]);
+      expect(compiled.ok).toBe(true);
+    });
+
+    it("fails when the migrated spec does not compile", () => {
+      // Without the extra write globs the .gitignore write is E300, which the migrated spec must not carry over
+      const res = migrateWebSpec({ sourceText: v1, registry });
+      expect(res.ok).toBe(false);
+      expect(res.sourceText).toBeUndefined();
+      expect(res.diagnostics.map((d) => d.code)).toEqual(expect.arrayContaining(["E913_MIGRATE_DOES_NOT_COMPILE", "E300_WRITE_OUTSIDE"]));
+      // The migrated YAML is not returned, so its diagnostics carry the JSON path but no source range
+      expect(res.diagnostics.find((d) => d.code === "E300_WRITE_OUTSIDE")).toMatchObject({ path: expect.any(String) });
+      expect(res.diagnostics.every((d) => d.range === undefined)).toBe(true);
+    });
+
+    it("refuses to migrate v0.2 specs", () => {
+      const res = migrateWebSpec({ sourceText: v2Spec(step("a")), registry });
+      expect(res.ok).toBe(false);
+      expect(res.diagnostics[0].code).toBe("E910_MIGRATE_NOT_V01");
+    });
+  });
 });
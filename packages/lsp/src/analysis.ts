@@ -0,0 +1,182 @@
+import YAML, { LineCounter } from "yaml";
+import { analyzeWebSpec } from "@webspec/compiler";
+import type { CompileInput, TemplateLoader } from "@webspec/compiler";
+import { StackManifestSchema } from "@webspec/shared";
+import type { DecisionTree, Diagnostic, StackMacroArgDef } from "@webspec/shared";
+
+// Protocol shapes used by the server (LSP 3.17), kept to the fields we fill in
+export type Position = { line: number; character: number }; // 0-based
+export type Range = { start: Position; end: Position };
+export type LspDiagnostic = { range: Range; severity: 1 | 2 | 3; code: string; source: "webspec"; message: string };
+export type CompletionItem = { label: string; kind: number; detail?: string; documentation?: string };
+
+export type SpecContext = {
+  registry: CompileInput["registry"]; // stack manifests keyed by id
+  decisionsTree?: DecisionTree;
+  sourcePath?: string; // path of the document relative to the workspace root; imports resolve against it
+  readFile?: (path: string) => string | undefined;
+  readTemplate?: TemplateLoader;
+};
+
+const SEVERITY = { error: 1, warn: 2, info: 3 } as const;
+const COMPLETION_KIND = { field: 5, function: 3, reference: 18 } as const;
+
+type Segment = string | number;
+
+type Loose = Record<string, unknown>;
+
+function isRecord(v: unknown): v is Loose {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// The entries of a list that are maps; a half-typed spec may hold anything else there too
+function records(value: unknown): Loose[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function parse(text: string) {
+  const lineCounter = new LineCounter();
+  const doc = YAML.parseDocument(text, { lineCounter });
+  return { doc, lineCounter };
+}
+
+function toOffset(lineCounter: LineCounter, text: string, pos: Position) {
+  const lineStart = lineCounter.lineStarts[pos.line] ?? text.length;
+  return Math.min(lineStart + pos.character, text.length);
+}
+
+function toPosition(lineCounter: LineCounter, offset: number): Position {
+  const { line, col } = lineCounter.linePos(offset);
+  return { line: line - 1, character: col - 1 };
+}
+
+function contains(node: unknown, offset: number) {
+  const range = YAML.isNode(node) ? node.range : undefined;
+  return !!range && range[0] <= offset && offset <= range[1];
+}
+
+/** Path of the innermost node under the cursor; a cursor on a map key yields the path of its value. */
+function pathAt(node: unknown, offset: number, path: Segment[] = []): Segment[] {
+  if (YAML.isMap(node)) {
+    for (const pair of node.items) {
+      const key = YAML.isScalar(pair.key) ? String(pair.key.value) : undefined;
+      if (key === undefined) continue;
+      if (contains(pair.key, offset)) return [...path, key];
+      if (contains(pair.value, offset)) return pathAt(pair.value, offset, [...path, key]);
+    }
+  } else if (YAML.isSeq(node)) {
+    for (let i = 0; i < node.items.length; i++) {
+      if (contains(node.items[i], offset)) return pathAt(node.items[i], offset, [...path, i]);
+    }
+  }
+  return path;
+}
+
+// Same as JSON path matching, with "*" matching any single segment
+function matches(path: Segment[], pattern: Segment[]) {
+  return path.length === pattern.length && pattern.every((p, i) => p === "*" || p === path[i]);
+}
+
+// The spec as compiled (imports merged) when it validates, otherwise whatever the half-typed YAML holds
+function currentSpec(text: string, doc: YAML.Document, ctx: SpecContext): Loose {
+  const analysis = analyzeWebSpec({ sourceText: text, ...ctx });
+  if (analysis.spec) return analysis.spec;
+  const raw: unknown = doc.errors.length === 0 ? doc.toJS() : undefined;
+  return isRecord(raw) ? raw : {};
+}
+
+/** Compile diagnostics located in this document (diagnostics inside imported fragments are left out). */
+export function specDiagnostics(text: string, ctx: SpecContext): LspDiagnostic[] {
+  const { lineCounter } = parse(text);
+  const diagnostics: Diagnostic[] = analyzeWebSpec({ sourceText: text, ...ctx }).diagnostics;
+  return diagnostics
+    .filter((d) => d.file === undefined || d.file === ctx.sourcePath)
+    .map((d) => {
+      const start = d.range ? toPosition(lineCounter, d.range.start.offset) : { line: 0, character: 0 };
+      const end = d.range ? toPosition(lineCounter, d.range.end.offset) : start;
+      return {
+        range: { start, end },
+        severity: SEVERITY[d.severity],
+        code: d.code,
+        source: "webspec" as const,
+        message: d.hint ? `${d.message}\n${d.hint}` : d.message
+      };
+    });
+}
+
+function describeArg(def: StackMacroArgDef) {
+  if (typeof def === "string") return def;
+  return `${def.type}${def.default !== undefined ? ` = ${JSON.stringify(def.default)}` : def.optional ? "?" : ""}`;
+}
+
+/**
+ * Completions at a position: macro names and args of the target stack, invariant ids in step `claims`
+ * and decision ids in step `decisions`.
+ */
+export function specCompletions(text: string, pos: Position, ctx: SpecContext): CompletionItem[] {
+  const { doc, lineCounter } = parse(text);
+  const path = pathAt(doc.contents, toOffset(lineCounter, text, pos));
+  const spec = currentSpec(text, doc, ctx);
+
+  const stepList = (key: string) => matches(path, ["steps", "*", key]) || matches(path, ["steps", "*", key, "*"]);
+  if (stepList("claims")) {
+    const intent = isRecord(spec.intent) ? spec.intent : {};
+    return records(intent.invariants).map((inv) => ({
+      label: String(inv.id),
+      kind: COMPLETION_KIND.reference,
+      detail: String(inv.text)
+    }));
+  }
+  if (stepList("decisions")) {
+    const inline = records(spec.decisions);
+    const decisions: Loose[] = inline.length > 0 ? inline : Object.values(ctx.decisionsTree?.nodes ?? {});
+    return decisions.map((d) => ({
+      label: String(d.id),
+      kind: COMPLETION_KIND.reference,
+      detail: `${d.question} → ${d.answer}`,
+      documentation: `status: ${d.status}, confidence: ${d.confidence}`
+    }));
+  }
+
+  const manifest = StackManifestSchema.safeParse(ctx.registry[String(spec.target)]);
+  const macros = (manifest.success && manifest.data.macros) || {};
+  const macroAt = ["steps", "*", "actions", "*", "macro"];
+  if (matches(path, [...macroAt, "name"])) {
+    return Object.entries(macros).map(([name, def]) => ({
+      label: name,
+      kind: COMPLETION_KIND.function,
+      detail: `(${Object.entries(def.args ?? {})
+        .map(([k, v]) => `${k}: ${describeArg(v)}`)
+        .join(", ")})`
+    }));
+  }
+  if (path.length >= macroAt.length + 1 && matches(path.slice(0, macroAt.length + 1), [...macroAt, "args"])) {
+    const [, stepIndex, , actionIndex] = path;
+    const macro = doc.getIn(["steps", stepIndex, "actions", actionIndex, "macro"]);
+    const name = YAML.isMap(macro) ? macro.get("name") : undefined;
+    const given = YAML.isMap(macro) ? macro.getIn(["args"]) : undefined;
+    const present = new Set(YAML.isMap(given) ? given.items.map((p) => String(YAML.isScalar(p.key) ? p.key.value : p.key)) : []);
+    return Object.entries(macros[String(name)]?.args ?? {})
+      .filter(([arg]) => !present.has(arg))
+      .map(([arg, def]) => ({ label: arg, kind: COMPLETION_KIND.field, detail: describeArg(def) }));
+  }
+  return [];
+}
+
+/** Go to definition: from a step's claim to its `intent.invariants` entry, and from a decision reference to the decision. */
+export function specDefinition(text: string, pos: Position): Range | undefined {
+  const { doc, lineCounter } = parse(text);
+  const path = pathAt(doc.contents, toOffset(lineCounter, text, pos));
+
+  let target: Segment[] | undefined;
+  if (matches(path, ["steps", "*", "claims", "*"])) target = ["intent", "invariants"];
+  else if (matches(path, ["steps", "*", "decisions", "*"])) target = ["decisions"];
+  if (!target) return undefined;
+
+  const id = doc.getIn(path);
+  const list = doc.getIn(target, true);
+  if (!YAML.isSeq(list)) return undefined;
+  const entry = list.items.find((item) => YAML.isMap(item) && item.get("id") === id);
+  if (!YAML.isNode(entry) || !entry.range) return undefined;
+  return { start: toPosition(lineCounter, entry.range[0]), end: toPosition(lineCounter, entry.range[1]) };
+}
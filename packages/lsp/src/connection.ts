@@ -0,0 +1,162 @@
+import { promises as fs, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { buildDecisionTree } from "@webspec/shared";
+import type { DecisionTree } from "@webspec/shared";
+import { loadRegistryFromStacksDir, loadTemplateSync } from "@webspec/registry";
+import { specCompletions, specDefinition, specDiagnostics } from "./analysis";
+import type { Position, SpecContext } from "./analysis";
+import { createMessageReader, encodeMessage, paramAt, requireString } from "./rpc";
+import type { RpcMessage } from "./rpc";
+
+const METHOD_NOT_FOUND = -32601;
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+// The params of the textDocument/* messages handled, reduced to the fields used
+type DocumentParams = { uri: string };
+type DidOpenParams = DocumentParams & { text: string };
+type DidChangeParams = DocumentParams & { text?: string }; // full sync: the last change holds the whole text
+type PositionParams = DocumentParams & { position: Position };
+
+function documentParams(params: unknown): DocumentParams {
+  return { uri: requireString(params, "textDocument.uri") };
+}
+
+function didOpenParams(params: unknown): DidOpenParams {
+  return { ...documentParams(params), text: requireString(params, "textDocument.text") };
+}
+
+function didChangeParams(params: unknown): DidChangeParams {
+  const changes = paramAt(params, "contentChanges");
+  const text = Array.isArray(changes) && changes.length > 0 ? paramAt(changes[changes.length - 1], "text") : undefined;
+  return { ...documentParams(params), text: typeof text === "string" ? text : undefined };
+}
+
+function positionParams(params: unknown): PositionParams {
+  const line = paramAt(params, "position.line");
+  const character = paramAt(params, "position.character");
+  if (typeof line !== "number" || typeof character !== "number") {
+    throw new Error("Invalid params: position must have a numeric line and character");
+  }
+  return { ...documentParams(params), position: { line, character } };
+}
+
+async function loadDecisionTree(decisionsDir: string): Promise<DecisionTree | undefined> {
+  try {
+    const json = JSON.parse(await fs.readFile(path.join(decisionsDir, "tree.json"), "utf8"));
+    if (json?.nodes && json?.index) return json;
+    if (Array.isArray(json?.decisions)) return buildDecisionTree(json.decisions);
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Serve the Language Server Protocol over a pair of streams (stdio for editors).
+ * Stacks and the decision tree are loaded from `stacks/` and `decisions/` of the workspace root.
+ */
+export function startServer(input: NodeJS.ReadableStream, output: NodeJS.WritableStream) {
+  const documents = new Map<string, string>();
+  let root = process.cwd();
+  let registry: SpecContext["registry"] = {};
+  let decisionsTree: DecisionTree | undefined;
+
+  const send = (message: Omit<RpcMessage, "jsonrpc">) => output.write(encodeMessage({ jsonrpc: "2.0", ...message }));
+  const notify = (method: string, params: unknown) => send({ method, params });
+
+  const context = (uri: string): SpecContext => {
+    const file = uri.startsWith("file:") ? fileURLToPath(uri) : uri;
+    return {
+      registry,
+      decisionsTree,
+      sourcePath: path.relative(root, file),
+      readFile: (p) => {
+        // Prefer unsaved editor contents of imported fragments
+        const open = documents.get(pathToFileURL(path.resolve(root, p)).href);
+        if (open !== undefined) return open;
+        try {
+          return readFileSync(path.resolve(root, p), "utf8");
+        } catch {
+          return undefined;
+        }
+      },
+      readTemplate: loadTemplateSync
+    };
+  };
+
+  const publish = (uri: string) => {
+    const text = documents.get(uri);
+    notify("textDocument/publishDiagnostics", { uri, diagnostics: text === undefined ? [] : specDiagnostics(text, context(uri)) });
+  };
+
+  const handlers: Record<string, (params: unknown) => unknown | Promise<unknown>> = {
+    initialize: async (params) => {
+      const rootUri = paramAt(params, "rootUri");
+      const rootPath = paramAt(params, "rootPath");
+      if (typeof rootUri === "string") root = fileURLToPath(rootUri);
+      else if (typeof rootPath === "string") root = rootPath;
+      registry = await loadRegistryFromStacksDir(path.join(root, "stacks")).catch(() => ({}));
+      decisionsTree = await loadDecisionTree(path.join(root, "decisions"));
+      return {
+        capabilities: {
+          textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+          completionProvider: { triggerCharacters: [":", " ", "[", ","] },
+          definitionProvider: true
+        },
+        serverInfo: { name: "webspec-lsp" }
+      };
+    },
+    initialized: () => undefined,
+    "textDocument/didOpen": (params) => {
+      const { uri, text } = didOpenParams(params);
+      documents.set(uri, text);
+      publish(uri);
+    },
+    "textDocument/didChange": (params) => {
+      const { uri, text } = didChangeParams(params);
+      if (text !== undefined) documents.set(uri, text);
+      publish(uri);
+    },
+    "textDocument/didClose": (params) => {
+      const { uri } = documentParams(params);
+      documents.delete(uri);
+      publish(uri);
+    },
+    "textDocument/completion": (params) => {
+      const { uri, position } = positionParams(params);
+      const text = documents.get(uri);
+      return text === undefined ? [] : specCompletions(text, position, context(uri));
+    },
+    "textDocument/definition": (params) => {
+      const { uri, position } = positionParams(params);
+      const text = documents.get(uri);
+      const range = text === undefined ? undefined : specDefinition(text, position);
+      return range ? { uri, range } : null;
+    },
+    shutdown: () => null,
+    exit: () => process.exit(0)
+  };
+
+  const handle = async (message: RpcMessage) => {
+    const handler = message.method ? handlers[message.method] : undefined;
+    const isRequest = message.id !== undefined && message.id !== null;
+    if (!handler) {
+      if (isRequest) send({ id: message.id, error: { code: METHOD_NOT_FOUND, message: `Unhandled method: ${message.method}` } });
+      return;
+    }
+    try {
+      const result = await handler(message.params);
+      if (isRequest) send({ id: message.id, result: result ?? null });
+    } catch (e) {
+      if (isRequest) send({ id: message.id, error: { code: -32603, message: e instanceof Error ? e.message : String(e) } });
+    }
+  };
+
+  // Handle messages one at a time, in order: a didOpen must not race the initialize that loads the stacks
+  let queue = Promise.resolve();
+  const read = createMessageReader((message) => {
+    queue = queue.then(() => handle(message));
+  });
+  input.on("data", (chunk: Buffer) => read(chunk));
+}
@@ -0,0 +1,3 @@
+export * from "./analysis";
+export * from "./connection";
+export * from "./rpc";
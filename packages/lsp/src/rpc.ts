@@ -0,0 +1,63 @@
+// JSON-RPC 2.0 over the LSP base protocol: messages framed by a `Content-Length` header.
+
+export type RpcMessage = {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown; // narrowed by each handler, see paramAt
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** The value at a dotted path of params, e.g. "textDocument.uri"; undefined when any level is missing. */
+export function paramAt(params: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((v, key) => (isRecord(v) ? v[key] : undefined), params);
+}
+
+/** A string param the method cannot do without. */
+export function requireString(params: unknown, path: string): string {
+  const value = paramAt(params, path);
+  if (typeof value !== "string") throw new Error(`Invalid params: ${path} must be a string`);
+  return value;
+}
+
+const HEADER_END = "\r\n\r\n";
+
+/** Incrementally split a byte stream into messages; call the returned function with every chunk received. */
+export function createMessageReader(onMessage: (message: RpcMessage) => void) {
+  let buffer = Buffer.alloc(0);
+  return (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf(HEADER_END);
+      if (headerEnd < 0) return;
+      const header = buffer.subarray(0, headerEnd).toString("ascii");
+      const length = Number(/Content-Length:\s*(\d+)/i.exec(header)?.[1]);
+      const start = headerEnd + HEADER_END.length;
+      if (!Number.isFinite(length)) {
+        // Not a valid frame; drop the header and resynchronize on the next one
+        buffer = buffer.subarray(start);
+        continue;
+      }
+      if (buffer.length < start + length) return;
+      const body = buffer.subarray(start, start + length).toString("utf8");
+      buffer = buffer.subarray(start + length);
+      let message: RpcMessage;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        continue; // a malformed body only loses that message
+      }
+      onMessage(message);
+    }
+  };
+}
+
+export function encodeMessage(message: RpcMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, "utf8")}${HEADER_END}${body}`;
+}
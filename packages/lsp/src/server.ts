@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { startServer } from "./connection";
+
+startServer(process.stdin, process.stdout);
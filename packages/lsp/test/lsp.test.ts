@@ -0,0 +1,89 @@
+import { PassThrough } from "node:stream";
+import { describe, it, expect, vi } from "vitest";
+import {
+  createMessageReader,
+  encodeMessage,
+  paramAt,
+  specCompletions,
+  specDefinition,
+  specDiagnostics,
+  startServer
+} from "../src";
+import type { RpcMessage } from "../src";
+import viteStack from "../../../stacks/react-vite-shadcn-tailwind4/manifest.json";
+
+const ctx = { registry: { [viteStack.id]: viteStack } };
+
+const spec = `lang: webspec/v0.2
+target: react-vite-shadcn-tailwind4
+project: { name: demo }
+intent:
+  summary: "Demo"
+  invariants:
+    - { id: INV-01, text: "Plan stays on track" }
+decisions:
+  - { id: DEC-01, question: "Which tool?", answer: "Vite", rationale: "Fast", status: final, confidence: 0.9 }
+steps:
+  - id: ui
+    claims: [INV-01]
+    decisions: [DEC-01]
+    actions:
+      - macro: { name: stack.shadcn_add, args: { app: apps/web } }
+    ensures:
+      - exists: apps/web/package.json
+`;
+
+// Position of the first occurrence of `needle` in spec, plus an offset into it
+function at(text: string, needle: string, delta = 0) {
+  const lines = text.slice(0, text.indexOf(needle) + delta).split("\n");
+  return { line: lines.length - 1, character: lines[lines.length - 1].length };
+}
+
+describe("webspec language server", () => {
+  it("publishes compile diagnostics at their YAML position", () => {
+    const diagnostics = specDiagnostics(spec.replace("claims: [INV-01]", "claims: [INV-02]"), ctx);
+    const d = diagnostics.find((x) => x.code === "E421_UNKNOWN_CLAIM");
+    expect(d).toMatchObject({ severity: 1, range: { start: { line: 11, character: 13 } } });
+  });
+
+  it("completes macro names and the args not given yet", () => {
+    const names = specCompletions(spec, at(spec, "stack.shadcn_add"), ctx).map((c) => c.label);
+    expect(names).toContain("stack.setup_ui");
+    const args = specCompletions(spec, at(spec, "app: apps/web"), ctx).map((c) => c.label);
+    expect(args).toEqual(["components"]);
+  });
+
+  it("completes invariant and decision ids in steps", () => {
+    expect(specCompletions(spec, at(spec, "INV-01]"), ctx).map((c) => c.label)).toEqual(["INV-01"]);
+    expect(specCompletions(spec, at(spec, "DEC-01]"), ctx)[0]).toMatchObject({ label: "DEC-01", detail: "Which tool? → Vite" });
+  });
+
+  it("goes from a claim to its invariant", () => {
+    expect(specDefinition(spec, at(spec, "INV-01]", 2))?.start).toEqual({ line: 6, character: 6 });
+  });
+
+  it("frames messages with Content-Length", () => {
+    const received: RpcMessage[] = [];
+    const read = createMessageReader((m) => received.push(m));
+    const frame = encodeMessage({ jsonrpc: "2.0", id: 1, method: "initialize", params: { note: "é" } });
+    read(Buffer.from(frame.slice(0, 10)));
+    read(Buffer.from(frame.slice(10) + frame));
+    expect(received.map((m) => paramAt(m.params, "note"))).toEqual(["é", "é"]);
+  });
+
+  it("answers requests whose params do not fit the method with an error", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const received: RpcMessage[] = [];
+    output.on("data", createMessageReader((m) => received.push(m)));
+    startServer(input, output);
+
+    const textDocument = { uri: "file:///spec.webspec.yaml" };
+    input.write(encodeMessage({ jsonrpc: "2.0", id: 1, method: "textDocument/completion", params: { textDocument } }));
+    const position = { line: 0, character: 0 };
+    input.write(encodeMessage({ jsonrpc: "2.0", id: 2, method: "textDocument/completion", params: { textDocument, position } }));
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received[0]).toMatchObject({ id: 1, error: { message: expect.stringContaining("position") } });
+    expect(received[1]).toMatchObject({ id: 2, result: [] });
+  });
+});
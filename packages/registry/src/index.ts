@@ -1,4 +1,4 @@
-import { promises as fs } from "node:fs";
+import { promises as fs, readFileSync } from "node:fs";
 import path from "node:path";
 import { StackManifestSchema } from "@webspec/shared";
 
@@ -29,3 +29,12 @@ export async function loadTemplate(stack: any, templateRelPath: string): Promise
   const abs = path.join(root, "templates", templateRelPath);
   return fs.readFile(abs, "utf8");
 }
+
+// For the synchronous compiler: undefined when the template does not exist
+export function loadTemplateSync(stack: Record<string, unknown>, templateRelPath: string): string | undefined {
+  try {
+    return readFileSync(path.join(String(stack.__stackRoot), "templates", templateRelPath), "utf8");
+  } catch {
+    return undefined;
+  }
+}
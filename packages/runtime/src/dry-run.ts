@@ -0,0 +1,63 @@
+import type { PlanCheck } from "@webspec/shared";
+
+export type DryRunCheck = {
+  check: PlanCheck;
+  // against the workdir as it is now; checks that would execute commands are skipped
+  status: "pass" | "fail" | "skipped";
+  message?: string;
+  assumption?: string; // set for pre-flight checks
+};
+
+export type DryRunOp =
+  | {
+      kind: "WRITE_FILE" | "APPEND_FILE" | "WRITE_TEMPLATE";
+      path: string;
+      change: "create" | "modify" | "unchanged";
+      diff: string; // unified diff against the workdir, after the plan's earlier writes
+      blocked?: string; // why the run would stop here
+    }
+  | { kind: "RUN"; cmd: string; cwd: string; blocked?: string };
+
+export type DryRunStep = { id: string; ops: DryRunOp[]; checks: DryRunCheck[] };
+
+export type DryRunReport = { preflight: DryRunCheck[]; steps: DryRunStep[] };
+
+export function dryRunBlocked(report: DryRunReport): DryRunOp[] {
+  return report.steps.flatMap((s) => s.ops).filter((op) => op.blocked);
+}
+
+function describeCheck(check: PlanCheck) {
+  const { kind, ...rest } = check;
+  const args = Object.values(rest).map((v) => (typeof v === "string" ? v : JSON.stringify(v)));
+  return [kind, ...args].join(" ");
+}
+
+function formatCheck(c: DryRunCheck) {
+  const owner = c.assumption ? ` (${c.assumption})` : "";
+  return `  ${c.status.padEnd(7)} ${describeCheck(c.check)}${owner}${c.message ? `: ${c.message}` : ""}`;
+}
+
+/** What `webspec run --dry-run` prints: per step, each op with its diff or command, then the checks' current state. */
+export function formatDryRunReport(report: DryRunReport): string {
+  const lines: string[] = [];
+  if (report.preflight.length > 0) lines.push("==> PREFLIGHT assumptions", ...report.preflight.map(formatCheck), "");
+  for (const step of report.steps) {
+    lines.push(`==> STEP ${step.id}`);
+    for (const op of step.ops) {
+      if (op.kind === "RUN") lines.push(`  RUN ${op.cmd}  (in ${op.cwd})`);
+      else lines.push(`  ${op.kind} ${op.path} (${op.change})`);
+      if (op.blocked) lines.push(`  BLOCKED: ${op.blocked}`);
+      if (op.kind !== "RUN" && op.diff) lines.push(...op.diff.trimEnd().split("\n").map((l) => `    ${l}`));
+    }
+    lines.push(...step.checks.map(formatCheck), "");
+  }
+
+  const ops = report.steps.flatMap((s) => s.ops);
+  const checks = [...report.preflight, ...report.steps.flatMap((s) => s.checks)];
+  const count = (status: DryRunCheck["status"]) => checks.filter((c) => c.status === status).length;
+  lines.push(
+    `Dry run: ${ops.length} ops, ${dryRunBlocked(report).length} blocked; ` +
+      `checks now: ${count("pass")} pass, ${count("fail")} fail, ${count("skipped")} skipped. Nothing was written or run.`
+  );
+  return lines.join("\n") + "\n";
+}
@@ -2,14 +2,67 @@ import { promises as fs } from "node:fs";
 import path from "node:path";
 import picomatch from "picomatch";
 import { execa } from "execa";
-import { PlanSchema, StackManifestSchema } from "@webspec/shared";
-import { loadTemplate } from "@webspec/registry";
+import {
+  contentHash,
+  manifestHash,
+  matchesCommandPattern,
+  matchesWildcard,
+  packageJsonDependencies,
+  parseShellCommand,
+  planDigest,
+  PlanSchema,
+  renderTemplate,
+  sha256Hex,
+  StackManifestSchema,
+  unifiedDiff
+} from "@webspec/shared";
+import type {
+  DecisionTree,
+  Plan,
+  PlanAssumption,
+  PlanCheck,
+  PlanNonGoal,
+  PlanOp,
+  PlanStep,
+  StackManifest
+} from "@webspec/shared";
+import { loadTemplate, loadTemplateSync } from "@webspec/registry";
+import type { DryRunCheck, DryRunOp, DryRunReport, DryRunStep } from "./dry-run";
+import { JOURNAL_FILE, readJournal, stepOpsHash, writeJournal } from "./journal";
+import type { JournalEntry, RunJournal } from "./journal";
+
+export * from "./dry-run";
+export * from "./journal";
+
+// A registry entry as loaded: the raw manifest plus bookkeeping such as __stackRoot
+type StackEntry = Record<string, unknown>;
 
 type RunOpts = {
   cwd: string;
-  registry: Record<string, any>;
+  registry: Record<string, StackEntry>;
+  decisionsTree?: DecisionTree; // the tree on disk, checked against the plan's provenance
+  dryRun?: boolean; // report what the plan would do; nothing is written and no command runs
+  resume?: boolean; // skip the journal's completed steps while their ops are unchanged and their checks pass
 };
 
+export type AssumptionReport = {
+  id: string;
+  text: string;
+  // machine: its verifiedBy checks passed in pre-flight; asserted: marked verified by hand
+  verification: "machine" | "asserted";
+};
+
+export type RunReport = {
+  assumptions: AssumptionReport[]; // empty in a dry run, whose pre-flight checks are in dryRun.preflight
+  dryRun?: DryRunReport;
+  skippedSteps?: string[]; // with resume: the steps taken as done from the journal
+};
+
+// The runtime's own bookkeeping, not the plan's doing: checks that list the workdir's files leave it out
+function isRuntimeFile(p: string) {
+  return p === JOURNAL_FILE;
+}
+
 function ensureDir(p: string) {
   return fs.mkdir(path.dirname(p), { recursive: true });
 }
@@ -28,8 +81,19 @@ async function checkFileContains(cwd: string, p: string, text: string) {
   if (!content.includes(text)) throw new Error(`Expected "${p}" to contain "${text}"`);
 }
 
+function commandArgv(cmd: string) {
+  const parsed = parseShellCommand(cmd);
+  if (!parsed.ok) throw new Error(`Command rejected (${parsed.error}): ${cmd}`);
+  return parsed.argv;
+}
+
+// Where a RUN op executes: its cwd, relative to the workdir
+function commandCwd(cwd: string, op: { cwd?: string }) {
+  return path.resolve(cwd, op.cwd ?? ".");
+}
+
 async function checkCmdOk(cwd: string, cmd: string) {
-  const [bin, ...args] = cmd.split(/\s+/);
+  const [bin, ...args] = commandArgv(cmd);
   const res = await execa(bin, args, { cwd, stdio: "inherit" });
   if (res.exitCode !== 0) throw new Error(`Command failed: ${cmd}`);
 }
@@ -42,7 +106,7 @@ async function checkGitTrackedOnly(cwd: string, glob: string, allow: string[]) {
   const files = listed.stdout
     .split("\n")
     .map((s) => s.trim())
-    .filter(Boolean);
+    .filter((f) => f && !isRuntimeFile(f));
   const normalized = files.sort();
   const allowed = allow.slice().sort();
   const same = JSON.stringify(normalized) === JSON.stringify(allowed);
@@ -155,63 +219,274 @@ async function checkDocContainsFuzzy(cwd: string, p: string, text: string, thres
   }
 }
 
-export async function runPlan(planJson: unknown, opts: RunOpts): Promise<void> {
-  const plan = PlanSchema.parse(planJson);
+async function runCheck(check: PlanCheck, cwd: string, stack: StackManifest) {
+  if (check.kind === "file.exists") await checkFileExists(cwd, check.path);
+  else if (check.kind === "file.contains") await checkFileContains(cwd, check.path, check.text);
+  else if (check.kind === "cmd.ok") await checkCmdOk(cwd, check.cmd);
+  else if (check.kind === "git.trackedOnly") await checkGitTrackedOnly(cwd, check.glob, check.allow);
+  else if (check.kind === "route.exists") await checkRouteExists(cwd, stack, check.route);
+  else if (check.kind === "doc.section") await checkDocSection(cwd, check.path, check.heading);
+  else if (check.kind === "doc.contains") await checkDocContains(cwd, check.path, check.text);
+  else if (check.kind === "doc.contains_fuzzy")
+    await checkDocContainsFuzzy(cwd, check.path, check.text, check.threshold, check.gate);
+  else if (check.kind === "artifact.exists") await checkFileExists(cwd, check.path);
+  else throw new Error(`Unknown check kind: ${(check as any).kind}`);
+}
+
+// Refuse a plan edited after compile, or compiled from a manifest, template or decision tree that has since changed
+async function verifyProvenance(plan: Plan, stackRaw: StackEntry, opts: RunOpts) {
+  const provenance = plan.provenance;
+  if (!provenance) return; // compiled before plans carried provenance
+  if (planDigest(plan) !== provenance.digest) throw new Error("Plan digest mismatch: the plan was edited after compile");
+  if (manifestHash(stackRaw) !== provenance.manifest) {
+    throw new Error(`Stack manifest ${plan.target} changed since the plan was compiled; recompile the spec`);
+  }
+  for (const [template, hash] of Object.entries(provenance.templates)) {
+    const text = await loadTemplate(stackRaw, template).catch(() => undefined);
+    if (text === undefined) throw new Error(`Template ${template} no longer exists; recompile the spec`);
+    if (sha256Hex(text) !== hash) throw new Error(`Template ${template} changed since the plan was compiled; recompile the spec`);
+  }
+  if (provenance.decisionTree && (!opts.decisionsTree || contentHash(opts.decisionsTree) !== provenance.decisionTree)) {
+    throw new Error("Decision tree changed since the plan was compiled; recompile the spec");
+  }
+}
+
+// Pre-flight: every assumption with checks must hold before the first step touches anything
+async function verifyAssumptions(assumptions: PlanAssumption[], cwd: string, stack: StackManifest) {
+  const report: AssumptionReport[] = [];
+  if (assumptions.length > 0) process.stdout.write(`\n==> PREFLIGHT assumptions\n`);
+  for (const a of assumptions) {
+    if (a.checks.length === 0) {
+      process.stdout.write(`asserted: ${a.id} ${a.text}\n`);
+      report.push({ id: a.id, text: a.text, verification: "asserted" });
+      continue;
+    }
+    for (const check of a.checks) {
+      try {
+        await runCheck(check, cwd, stack);
+      } catch (e) {
+        throw new Error(`Assumption "${a.id}" does not hold (${a.text}): ${e instanceof Error ? e.message : e}`);
+      }
+    }
+    process.stdout.write(`verified: ${a.id} ${a.text}\n`);
+    report.push({ id: a.id, text: a.text, verification: "machine" });
+  }
+  return report;
+}
+
+const WALK_SKIP = new Set(["node_modules", ".git"]);
+
+async function listFiles(cwd: string, dir = ""): Promise<string[]> {
+  const entries = await fs.readdir(path.join(cwd, dir), { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const e of entries) {
+    const rel = dir ? `${dir}/${e.name}` : e.name;
+    if (e.isDirectory()) {
+      if (!WALK_SKIP.has(e.name)) files.push(...(await listFiles(cwd, rel)));
+    } else if (e.isFile() && !isRuntimeFile(rel)) files.push(rel);
+  }
+  return files;
+}
+
+/**
+ * What the workdir holds that a non-goal rules out — forbidden paths, and forbidden dependencies in any
+ * package.json — keyed so two snapshots can be compared. Commands can add these behind the compiler's back
+ * (a scaffolder pulling in a framework), so the runtime looks again after every RUN op.
+ */
+async function nonGoalFindings(cwd: string, nonGoals: PlanNonGoal[]) {
+  const findings = new Map<string, string>();
+  const watched = nonGoals.filter((g) => g.forbid.paths?.length || g.forbid.dependencies?.length);
+  if (watched.length === 0) return findings;
+
+  for (const file of await listFiles(cwd)) {
+    for (const goal of watched) {
+      const glob = (goal.forbid.paths ?? []).find((g) => picomatch(g, { dot: true })(file));
+      if (glob) findings.set(`${goal.id}:path:${file}`, `non-goal "${goal.id}" violated: ${file} exists (matches "${glob}")`);
+    }
+    if (path.basename(file) !== "package.json") continue;
+    const names = packageJsonDependencies(await fs.readFile(path.join(cwd, file), "utf8"));
+    for (const name of names) {
+      for (const goal of watched) {
+        if ((goal.forbid.dependencies ?? []).some((p) => matchesWildcard(p, name))) {
+          findings.set(`${goal.id}:dep:${file}:${name}`, `non-goal "${goal.id}" violated: ${file} depends on ${name}`);
+        }
+      }
+    }
+  }
+  return findings;
+}
+
+type EffectsPolicy = {
+  allowed: string[];
+  denied: string[];
+  allowPrefixes: string[];
+  denySubs: string[];
+  nonGoals: PlanNonGoal[];
+};
+
+// Why the stack's effects policy or a non-goal refuses an op; undefined when it may go ahead
+function opBlocked(op: PlanOp, policy: EffectsPolicy, cwd: string): string | undefined {
+  if (op.kind !== "RUN") {
+    return isAllowedPath(op.path, policy.allowed, policy.denied) ? undefined : `Write outside allowed globs: ${op.path}`;
+  }
+  const cmd = op.cmd;
+  const parsed = parseShellCommand(cmd);
+  if (!parsed.ok) return `Command rejected (${parsed.error}): ${cmd}`;
+  if (!policy.allowPrefixes.some((p) => matchesCommandPattern(parsed.argv, p))) return `Command not allowed: ${cmd}`;
+  const bad = policy.denySubs.find((sub) => cmd.includes(sub));
+  if (bad) return `Command denied substring "${bad}": ${cmd}`;
+  const goal = policy.nonGoals.find((g) => (g.forbid.commands ?? []).some((p) => matchesCommandPattern(parsed.argv, p)));
+  if (goal) return `Command ruled out by non-goal "${goal.id}": ${cmd}`;
+  const rel = path.relative(cwd, commandCwd(cwd, op));
+  if (rel.startsWith("..") || path.isAbsolute(rel)) return `Command cwd outside the workdir: ${op.cwd}`;
+  return undefined;
+}
+
+async function renderTemplateOp(stackRaw: StackEntry, op: { template: string; vars?: Record<string, unknown> }) {
+  const templateText = await loadTemplate(stackRaw, op.template);
+  return renderTemplate(templateText, op.vars ?? {}, (name) => loadTemplateSync(stackRaw, name));
+}
+
+const COMMAND_CHECKS = new Set(["cmd.ok", "git.trackedOnly"]);
+
+async function evaluateCheck(check: PlanCheck, cwd: string, stack: StackManifest): Promise<DryRunCheck> {
+  if (COMMAND_CHECKS.has(check.kind)) return { check, status: "skipped", message: "runs a command" };
+  try {
+    await runCheck(check, cwd, stack);
+    return { check, status: "pass" };
+  } catch (e) {
+    return { check, status: "fail", message: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Walk the plan without touching the workdir: every op is held against the effects policy, writes are diffed
+ * against what the workdir (and the plan's earlier writes) would hold, and checks report whether they pass now.
+ */
+async function dryRunPlan(plan: Plan, stackRaw: StackEntry, stack: StackManifest, policy: EffectsPolicy, cwd: string) {
+  const preflight: DryRunCheck[] = [];
+  for (const a of plan.assumptions ?? []) {
+    for (const check of a.checks) preflight.push({ ...(await evaluateCheck(check, cwd, stack)), assumption: a.id });
+  }
+
+  const written = new Map<string, string>(); // file contents as the plan's earlier ops would leave them
+  const contentOf = async (p: string) =>
+    written.has(p) ? written.get(p) : fs.readFile(path.join(cwd, p), "utf8").catch(() => undefined);
+  const steps: DryRunStep[] = [];
+  for (const step of plan.steps) {
+    const ops: DryRunOp[] = [];
+    for (const op of step.ops) {
+      let blocked = opBlocked(op, policy, cwd);
+      if (op.kind === "RUN") {
+        ops.push({ kind: "RUN", cmd: op.cmd, cwd: commandCwd(cwd, op), blocked });
+        continue;
+      }
+      const before = await contentOf(op.path);
+      let after = before ?? "";
+      if (op.kind === "WRITE_FILE") after = op.content;
+      else if (op.kind === "APPEND_FILE") after += op.content;
+      else {
+        try {
+          after = await renderTemplateOp(stackRaw, op);
+        } catch (e) {
+          blocked ??= `Template ${op.template} cannot be rendered: ${e instanceof Error ? e.message : e}`;
+        }
+      }
+      written.set(op.path, after);
+      const change = before === undefined ? "create" : before === after ? "unchanged" : "modify";
+      const from = before === undefined ? "/dev/null" : `a/${op.path}`;
+      const diff = unifiedDiff(before ?? "", after, { from, to: `b/${op.path}` });
+      ops.push({ kind: op.kind, path: op.path, change, diff, blocked });
+    }
+    const checks: DryRunCheck[] = [];
+    for (const check of step.checks ?? []) checks.push(await evaluateCheck(check, cwd, stack));
+    steps.push({ id: step.id, ops, checks });
+  }
+  return { preflight, steps };
+}
+
+// With resume: undefined when the journal's record of the step still stands, otherwise why it has to run again
+async function resumeBlocker(step: PlanStep, entry: JournalEntry | undefined, cwd: string, stack: StackManifest) {
+  if (!entry) return "not completed by the last run";
+  if (entry.opsHash !== stepOpsHash(step)) return "its ops changed since the last run";
+  for (const check of step.checks ?? []) {
+    try {
+      await runCheck(check, cwd, stack);
+    } catch (e) {
+      return `${check.kind} no longer passes: ${e instanceof Error ? e.message : e}`;
+    }
+  }
+  return undefined;
+}
+
+export async function runPlan(planJson: unknown, opts: RunOpts): Promise<RunReport> {
+  const plan = PlanSchema.parse(planJson) as Plan;
   const stackRaw = opts.registry[plan.target];
   if (!stackRaw) throw new Error(`Unknown target in runtime registry: ${plan.target}`);
   const stack = StackManifestSchema.parse(stackRaw);
-  const allowed = stack.effectsPolicy.allowedWriteGlobs ?? [];
-  const denied = stack.effectsPolicy.deniedWriteGlobs ?? [];
-  const allowPrefixes = stack.commands.allowPrefixes ?? ["pnpm", "git", "node"];
-  const denySubs = stack.commands.denySubstrings ?? [];
+  const nonGoals = plan.nonGoals ?? [];
+  const policy: EffectsPolicy = {
+    allowed: stack.effectsPolicy.allowedWriteGlobs ?? [],
+    denied: stack.effectsPolicy.deniedWriteGlobs ?? [],
+    allowPrefixes: stack.commands.allowPrefixes ?? ["pnpm", "git", "node"],
+    denySubs: stack.commands.denySubstrings ?? [],
+    nonGoals
+  };
+
+  await verifyProvenance(plan, stackRaw, opts);
+  if (opts.dryRun) return { assumptions: [], dryRun: await dryRunPlan(plan, stackRaw, stack, policy, opts.cwd) };
+
+  const assumptions = await verifyAssumptions(plan.assumptions ?? [], opts.cwd, stack);
+  // Only what RUN ops introduce counts; the workdir may hold such files or dependencies from before
+  const baseline = await nonGoalFindings(opts.cwd, nonGoals);
+
+  const previous = opts.resume ? await readJournal(opts.cwd) : undefined;
+  const journal: RunJournal = { steps: [] };
+  const skippedSteps: string[] = [];
+  // Later steps build on earlier ones, so once a step runs again every step after it does too
+  let resuming = Boolean(opts.resume);
 
-  // Execute steps in provided order (compiler already topologically sorts in v0)
+  // Execute steps in provided order (the compiler emits them topologically sorted)
   for (const step of plan.steps) {
     process.stdout.write(`\n==> STEP ${step.id}\n`);
+    if (resuming) {
+      const entry = previous?.steps.find((e) => e.step === step.id);
+      const blocker = await resumeBlocker(step, entry, opts.cwd, stack);
+      if (!blocker) {
+        process.stdout.write("skipped: unchanged since the last run and its checks pass\n");
+        journal.steps.push(entry!);
+        skippedSteps.push(step.id);
+        continue;
+      }
+      process.stdout.write(`resuming here: ${blocker}\n`);
+      resuming = false;
+    }
+    // Drop the record of this step and those after it before touching the workdir
+    await writeJournal(opts.cwd, journal);
+
     // ops
     for (const op of step.ops) {
-      if (op.kind === "WRITE_FILE") {
-        if (!isAllowedPath(op.path, allowed, denied)) throw new Error(`Write outside allowed globs: ${op.path}`);
-        const abs = path.join(opts.cwd, op.path);
-        await ensureDir(abs);
-        await fs.writeFile(abs, op.content, "utf8");
-      } else if (op.kind === "APPEND_FILE") {
-        if (!isAllowedPath(op.path, allowed, denied)) throw new Error(`Write outside allowed globs: ${op.path}`);
-        const abs = path.join(opts.cwd, op.path);
-        await ensureDir(abs);
-        await fs.appendFile(abs, op.content, "utf8");
-      } else if (op.kind === "WRITE_TEMPLATE") {
-        if (!isAllowedPath(op.path, allowed, denied)) throw new Error(`Write outside allowed globs: ${op.path}`);
-        const abs = path.join(opts.cwd, op.path);
-        await ensureDir(abs);
-        const templateText = await loadTemplate(stackRaw, op.template);
-        const vars = op.vars ?? {};
-        const rendered = templateText.replace(/\{\{([A-Za-z0-9_]+)\}\}/g, (_, k) => String(vars[k] ?? ""));
-        await fs.writeFile(abs, rendered, "utf8");
-      } else if (op.kind === "RUN") {
-        const cmd = op.cmd;
-        const prefix = cmd.trim().split(/\s+/)[0] ?? "";
-        if (!allowPrefixes.includes(prefix)) throw new Error(`Command not allowed: ${prefix}`);
-        for (const bad of denySubs) if (cmd.includes(bad)) throw new Error(`Command denied substring "${bad}": ${cmd}`);
-        await checkCmdOk(opts.cwd, cmd);
-      } else {
-        throw new Error(`Unknown op kind: ${(op as any).kind}`);
+      const blocked = opBlocked(op, policy, opts.cwd);
+      if (blocked) throw new Error(blocked);
+      if (op.kind === "RUN") {
+        await checkCmdOk(commandCwd(opts.cwd, op), op.cmd);
+        for (const [key, message] of await nonGoalFindings(opts.cwd, nonGoals)) {
+          if (!baseline.has(key)) throw new Error(`After "${op.cmd}": ${message}`);
+        }
+        continue;
       }
+      const abs = path.join(opts.cwd, op.path);
+      await ensureDir(abs);
+      if (op.kind === "WRITE_FILE") await fs.writeFile(abs, op.content, "utf8");
+      else if (op.kind === "APPEND_FILE") await fs.appendFile(abs, op.content, "utf8");
+      else if (op.kind === "WRITE_TEMPLATE") await fs.writeFile(abs, await renderTemplateOp(stackRaw, op), "utf8");
+      else throw new Error(`Unknown op kind: ${(op as any).kind}`);
     }
 
     // checks
-    for (const check of step.checks ?? []) {
-      if (check.kind === "file.exists") await checkFileExists(opts.cwd, check.path);
-      else if (check.kind === "file.contains") await checkFileContains(opts.cwd, check.path, check.text);
-      else if (check.kind === "cmd.ok") await checkCmdOk(opts.cwd, check.cmd);
-      else if (check.kind === "git.trackedOnly") await checkGitTrackedOnly(opts.cwd, check.glob, check.allow);
-      else if (check.kind === "route.exists") await checkRouteExists(opts.cwd, stack, check.route);
-      else if (check.kind === "doc.section") await checkDocSection(opts.cwd, check.path, check.heading);
-      else if (check.kind === "doc.contains") await checkDocContains(opts.cwd, check.path, check.text);
-      else if (check.kind === "doc.contains_fuzzy")
-        await checkDocContainsFuzzy(opts.cwd, check.path, check.text, check.threshold, check.gate);
-      else if (check.kind === "artifact.exists") await checkFileExists(opts.cwd, check.path);
-      else throw new Error(`Unknown check kind: ${(check as any).kind}`);
-    }
+    for (const check of step.checks ?? []) await runCheck(check, opts.cwd, stack);
+    journal.steps.push({ step: step.id, opsHash: stepOpsHash(step), completedAt: new Date().toISOString() });
+    await writeJournal(opts.cwd, journal);
   }
+  return opts.resume ? { assumptions, skippedSteps } : { assumptions };
 }
@@ -0,0 +1,36 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { contentHash } from "@webspec/shared";
+import type { PlanStep } from "@webspec/shared";
+
+// Relative to the workdir; every run but a dry run writes it, and the runtime's file listings leave it out
+export const JOURNAL_FILE = ".ai/run-journal.json";
+
+export type JournalEntry = {
+  step: string;
+  opsHash: string; // contentHash of the step's ops: a recompile that changes them invalidates the entry
+  completedAt: string;
+};
+
+/** The steps of the last run that finished, in the order they ran; a failed step is never recorded. */
+export type RunJournal = { steps: JournalEntry[] };
+
+export function stepOpsHash(step: PlanStep) {
+  return contentHash(step.ops);
+}
+
+/** The workdir's journal, or undefined when there is none or it cannot be read (resume then starts over). */
+export async function readJournal(cwd: string): Promise<RunJournal | undefined> {
+  try {
+    const journal = JSON.parse(await fs.readFile(path.join(cwd, JOURNAL_FILE), "utf8"));
+    return Array.isArray(journal?.steps) ? journal : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function writeJournal(cwd: string, journal: RunJournal) {
+  const abs = path.join(cwd, JOURNAL_FILE);
+  await fs.mkdir(path.dirname(abs), { recursive: true });
+  await fs.writeFile(abs, JSON.stringify(journal, null, 2) + "\n", "utf8");
+}
@@ -0,0 +1,304 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildDecisionTree, contentHash, manifestHash, planDigest, sha256Hex } from "@webspec/shared";
+import type { DecisionTree, Plan, PlanStep } from "@webspec/shared";
+import { dryRunBlocked, formatDryRunReport, JOURNAL_FILE, readJournal, runPlan, stepOpsHash, writeJournal } from "../src";
+
+let stackRoot: string;
+let cwd: string;
+
+const manifest = {
+  id: "test-stack",
+  presetVersion: 1,
+  effectsPolicy: { allowedWriteGlobs: ["apps/**"] },
+  commands: { allowPrefixes: ["node"] }
+};
+
+function registry() {
+  return { [manifest.id]: { ...manifest, __stackRoot: stackRoot } };
+}
+
+function step(id: string, file: string, content = id): PlanStep {
+  return {
+    id,
+    requires: [],
+    ops: [{ kind: "WRITE_FILE", path: file, content }],
+    checks: [{ kind: "file.contains", path: file, text: content }]
+  };
+}
+
+function plan(fields: Partial<Plan> = {}): Plan {
+  return {
+    lang: "webspec/plan-v0.1",
+    target: manifest.id,
+    presetVersion: 1,
+    specHash: "spec",
+    steps: [step("S1", "apps/a.txt")],
+    ...fields
+  };
+}
+
+// The plan as the compiler would stamp it against the current stack directory
+async function stamped(decisionsTree?: DecisionTree): Promise<Plan> {
+  const page = await fs.readFile(path.join(stackRoot, "templates", "page.txt"), "utf8");
+  const ops: PlanStep["ops"] = [{ kind: "WRITE_TEMPLATE", path: "apps/page.txt", template: "page.txt" }];
+  const unstamped = plan({ steps: [{ id: "S1", requires: [], ops, checks: [] }] });
+  const provenance = {
+    manifest: manifestHash(manifest),
+    templates: { "page.txt": sha256Hex(page) },
+    decisionTree: decisionsTree && contentHash(decisionsTree),
+    digest: ""
+  };
+  return { ...unstamped, provenance: { ...provenance, digest: planDigest({ ...unstamped, provenance }) } };
+}
+
+async function exists(file: string) {
+  return fs.access(path.join(cwd, file)).then(
+    () => true,
+    () => false
+  );
+}
+
+beforeEach(async () => {
+  stackRoot = await fs.mkdtemp(path.join(os.tmpdir(), "webspec-stack-"));
+  cwd = await fs.mkdtemp(path.join(os.tmpdir(), "webspec-work-"));
+  await fs.mkdir(path.join(stackRoot, "templates"));
+  await fs.writeFile(path.join(stackRoot, "templates", "page.txt"), "page\n", "utf8");
+});
+
+afterEach(async () => {
+  await fs.rm(stackRoot, { recursive: true, force: true });
+  await fs.rm(cwd, { recursive: true, force: true });
+});
+
+describe("runPlan assumptions", () => {
+  it("reports machine-verified and asserted assumptions", async () => {
+    await fs.writeFile(path.join(cwd, "README.md"), "# Demo\n", "utf8");
+    const res = await runPlan(
+      plan({
+        assumptions: [
+          { id: "ASM-01", text: "The repo has a README", checks: [{ kind: "file.exists", path: "README.md" }] },
+          { id: "ASM-02", text: "Someone reviews the output", checks: [] }
+        ]
+      }),
+      { cwd, registry: registry() }
+    );
+    expect(res.assumptions).toEqual([
+      { id: "ASM-01", text: "The repo has a README", verification: "machine" },
+      { id: "ASM-02", text: "Someone reviews the output", verification: "asserted" }
+    ]);
+    expect(await exists("apps/a.txt")).toBe(true);
+  });
+
+  it("refuses to run when an assumption does not hold, before any step", async () => {
+    const run = runPlan(
+      plan({
+        assumptions: [{ id: "ASM-01", text: "The repo has a README", checks: [{ kind: "file.exists", path: "README.md" }] }]
+      }),
+      { cwd, registry: registry() }
+    );
+    await expect(run).rejects.toThrow('Assumption "ASM-01" does not hold (The repo has a README)');
+    expect(await exists("apps/a.txt")).toBe(false);
+  });
+});
+
+describe("runPlan provenance", () => {
+  it("runs a plan whose inputs are unchanged since compile", async () => {
+    await runPlan(await stamped(), { cwd, registry: registry() });
+    expect(await fs.readFile(path.join(cwd, "apps/page.txt"), "utf8")).toBe("page\n");
+  });
+
+  it("refuses a plan edited after compile", async () => {
+    const edited = await stamped();
+    edited.steps[0].ops.push({ kind: "WRITE_FILE", path: "apps/extra.txt", content: "x" });
+    await expect(runPlan(edited, { cwd, registry: registry() })).rejects.toThrow("Plan digest mismatch");
+    expect(await exists("apps/extra.txt")).toBe(false);
+  });
+
+  it("refuses a plan whose template changed since compile", async () => {
+    const compiled = await stamped();
+    await fs.writeFile(path.join(stackRoot, "templates", "page.txt"), "changed\n", "utf8");
+    await expect(runPlan(compiled, { cwd, registry: registry() })).rejects.toThrow(
+      "Template page.txt changed since the plan was compiled"
+    );
+    expect(await exists("apps/page.txt")).toBe(false);
+  });
+
+  it("refuses a plan whose template no longer exists", async () => {
+    const compiled = await stamped();
+    await fs.rm(path.join(stackRoot, "templates", "page.txt"));
+    await expect(runPlan(compiled, { cwd, registry: registry() })).rejects.toThrow("Template page.txt no longer exists");
+  });
+
+  it("refuses a plan whose manifest changed since compile", async () => {
+    const compiled = await stamped();
+    const changed = { ...registry()[manifest.id], presetVersion: 2 };
+    await expect(runPlan(compiled, { cwd, registry: { [manifest.id]: changed } })).rejects.toThrow(
+      "Stack manifest test-stack changed"
+    );
+  });
+
+  it("refuses a plan compiled against a decision tree when the tree on disk differs or is gone", async () => {
+    const decision = { id: "DEC-01", question: "q", answer: "a", rationale: "r", status: "final" as const, confidence: 0.9 };
+    const compiled = await stamped(buildDecisionTree([decision]));
+    const changed = buildDecisionTree([{ ...decision, answer: "b" }]);
+    await expect(runPlan(compiled, { cwd, registry: registry(), decisionsTree: changed })).rejects.toThrow(
+      "Decision tree changed"
+    );
+    await expect(runPlan(compiled, { cwd, registry: registry() })).rejects.toThrow("Decision tree changed");
+    const decisionsTree = buildDecisionTree([decision]);
+    await runPlan(compiled, { cwd, registry: registry(), decisionsTree });
+    expect(await exists("apps/page.txt")).toBe(true);
+  });
+});
+
+describe("runPlan dry run", () => {
+  const dryRun = async () => {
+    await fs.mkdir(path.join(cwd, "apps"));
+    await fs.writeFile(path.join(cwd, "apps/a.txt"), "old\n", "utf8");
+    const res = await runPlan(
+      plan({
+        assumptions: [{ id: "ASM-01", text: "a.txt is there", checks: [{ kind: "file.exists", path: "apps/a.txt" }] }],
+        steps: [
+          {
+            id: "S1",
+            requires: [],
+            ops: [
+              { kind: "WRITE_FILE", path: "apps/a.txt", content: "new\n" },
+              { kind: "APPEND_FILE", path: "apps/a.txt", content: "more\n" },
+              { kind: "WRITE_FILE", path: "apps/b.txt", content: "b\n" },
+              { kind: "WRITE_TEMPLATE", path: "apps/page.txt", template: "page.txt" },
+              { kind: "WRITE_FILE", path: ".env", content: "SECRET=1\n" },
+              { kind: "RUN", cmd: "node -v" },
+              { kind: "RUN", cmd: "rm -rf apps" }
+            ],
+            checks: [
+              { kind: "file.exists", path: "apps/a.txt" },
+              { kind: "file.exists", path: "apps/b.txt" },
+              { kind: "cmd.ok", cmd: "node -v" },
+              { kind: "git.trackedOnly", glob: ".ai/**", allow: [] }
+            ]
+          }
+        ]
+      }),
+      { cwd, registry: registry(), dryRun: true, resume: true }
+    );
+    return res.dryRun!;
+  };
+
+  it("diffs each write against the workdir and the plan's earlier writes", async () => {
+    const [write, append, create, template] = (await dryRun()).steps[0].ops;
+    expect(write).toMatchObject({ kind: "WRITE_FILE", path: "apps/a.txt", change: "modify" });
+    expect(write.kind !== "RUN" && write.diff).toContain("-old\n+new");
+    expect(append).toMatchObject({ kind: "APPEND_FILE", change: "modify" });
+    expect(append.kind !== "RUN" && append.diff).not.toContain("-old");
+    expect(append.kind !== "RUN" && append.diff).toContain("+more");
+    expect(create).toMatchObject({ path: "apps/b.txt", change: "create" });
+    expect(create.kind !== "RUN" && create.diff).toContain("--- /dev/null");
+    expect(template).toMatchObject({ path: "apps/page.txt", change: "create" });
+    expect(template.kind !== "RUN" && template.diff).toContain("+page");
+  });
+
+  it("reports the ops the run would refuse", async () => {
+    const report = await dryRun();
+    expect(dryRunBlocked(report)).toEqual([
+      expect.objectContaining({ path: ".env", blocked: "Write outside allowed globs: .env" }),
+      expect.objectContaining({ cmd: "rm -rf apps", blocked: "Command not allowed: rm -rf apps" })
+    ]);
+    expect(report.steps[0].ops[5]).toEqual({ kind: "RUN", cmd: "node -v", cwd, blocked: undefined });
+  });
+
+  it("evaluates checks against the workdir as it is, skipping those that run commands", async () => {
+    const report = await dryRun();
+    expect(report.preflight).toEqual([
+      { check: { kind: "file.exists", path: "apps/a.txt" }, status: "pass", assumption: "ASM-01" }
+    ]);
+    expect(report.steps[0].checks.map((c) => c.status)).toEqual(["pass", "fail", "skipped", "skipped"]);
+    expect(report.steps[0].checks[2].message).toBe("runs a command");
+
+    const text = formatDryRunReport(report);
+    expect(text).toContain("==> PREFLIGHT assumptions\n  pass    file.exists apps/a.txt (ASM-01)");
+    expect(text).toContain("  WRITE_FILE .env (create)\n  BLOCKED: Write outside allowed globs: .env");
+    expect(text).toContain("  skipped cmd.ok node -v: runs a command");
+    expect(text).toContain("Dry run: 7 ops, 2 blocked; checks now: 2 pass, 1 fail, 2 skipped. Nothing was written or run.");
+  });
+
+  it("leaves the workdir untouched, journal included", async () => {
+    await dryRun();
+    expect((await fs.readdir(cwd, { recursive: true })).sort()).toEqual(["apps", "apps/a.txt"]);
+    expect(await fs.readFile(path.join(cwd, "apps/a.txt"), "utf8")).toBe("old\n");
+  });
+});
+
+describe("run journal", () => {
+  const steps = () => [step("S1", "apps/a.txt"), { ...step("S2", "apps/b.txt"), requires: ["S1"] }];
+  const resume = (p: Plan) => runPlan(p, { cwd, registry: registry(), resume: true });
+
+  it("round-trips the journal and reads a missing or broken one as none", async () => {
+    expect(await readJournal(cwd)).toBeUndefined();
+    const journal = { steps: [{ step: "S1", opsHash: "h", completedAt: "2026-01-01T00:00:00.000Z" }] };
+    await writeJournal(cwd, journal);
+    expect(await readJournal(cwd)).toEqual(journal);
+    await fs.writeFile(path.join(cwd, JOURNAL_FILE), "{ not json", "utf8");
+    expect(await readJournal(cwd)).toBeUndefined();
+  });
+
+  it("hashes a step's ops only", () => {
+    const s1 = step("S1", "apps/a.txt");
+    expect(stepOpsHash({ ...s1, checks: [] })).toBe(stepOpsHash(s1));
+    expect(stepOpsHash(step("S1", "apps/a.txt", "other"))).not.toBe(stepOpsHash(s1));
+  });
+
+  it("is written by a plain run that fails, so a resumed run picks up after its completed steps", async () => {
+    const s3 = { ...step("S3", "apps/c.txt"), requires: ["S2"] };
+    const broken = { ...s3, checks: [{ kind: "file.contains" as const, path: "apps/c.txt", text: "missing" }] };
+    await expect(runPlan(plan({ steps: [...steps(), broken] }), { cwd, registry: registry() })).rejects.toThrow(
+      'Expected "apps/c.txt" to contain "missing"'
+    );
+    expect((await readJournal(cwd))?.steps.map((e) => e.step)).toEqual(["S1", "S2"]);
+
+    await fs.appendFile(path.join(cwd, "apps/a.txt"), " edited", "utf8");
+    const res = await resume(plan({ steps: [...steps(), s3] }));
+    expect(res.skippedSteps).toEqual(["S1", "S2"]);
+    expect(await fs.readFile(path.join(cwd, "apps/a.txt"), "utf8")).toBe("S1 edited");
+    expect((await readJournal(cwd))?.steps.map((e) => e.step)).toEqual(["S1", "S2", "S3"]);
+  });
+
+  it("skips completed steps while their ops are unchanged and their checks pass", async () => {
+    await resume(plan({ steps: steps() }));
+    await fs.appendFile(path.join(cwd, "apps/a.txt"), " edited", "utf8");
+    const res = await resume(plan({ steps: steps() }));
+    expect(res.skippedSteps).toEqual(["S1", "S2"]);
+    expect(await fs.readFile(path.join(cwd, "apps/a.txt"), "utf8")).toBe("S1 edited");
+  });
+
+  it("runs again from the first step whose ops changed", async () => {
+    await resume(plan({ steps: steps() }));
+    const changed = [step("S1", "apps/a.txt", "S1 v2"), steps()[1]];
+    const res = await resume(plan({ steps: changed }));
+    expect(res.skippedSteps).toEqual([]);
+    expect(await fs.readFile(path.join(cwd, "apps/a.txt"), "utf8")).toBe("S1 v2");
+  });
+
+  it("runs again from the first step whose checks no longer pass", async () => {
+    await resume(plan({ steps: steps() }));
+    await fs.rm(path.join(cwd, "apps/b.txt"));
+    const res = await resume(plan({ steps: steps() }));
+    expect(res.skippedSteps).toEqual(["S1"]);
+    expect(await exists("apps/b.txt")).toBe(true);
+  });
+
+  it("does not record a step that failed", async () => {
+    const failing = { ...steps()[1], checks: [{ kind: "file.contains" as const, path: "apps/b.txt", text: "missing" }] };
+    await expect(resume(plan({ steps: [steps()[0], failing] }))).rejects.toThrow('Expected "apps/b.txt" to contain "missing"');
+    expect((await readJournal(cwd))?.steps.map((e) => e.step)).toEqual(["S1"]);
+  });
+
+  it("is not mistaken for a file the plan's commands created", async () => {
+    const run: PlanStep = { id: "S3", requires: [], ops: [{ kind: "RUN", cmd: "node -e 0" }], checks: [] };
+    const nonGoals = [{ id: "NG-01", text: "Nothing under .ai", forbid: { paths: [".ai/**"] } }];
+    await expect(resume(plan({ nonGoals, steps: [...steps(), run] }))).resolves.toMatchObject({ skippedSteps: [] });
+  });
+});
@@ -0,0 +1,106 @@
+import type { DecisionTree, DecisionTreeNode } from "./types";
+
+export type DecisionRenderFormat = "md" | "mermaid";
+
+export const DECISION_RENDER_FORMATS: DecisionRenderFormat[] = ["md", "mermaid"];
+
+// Roots first, each followed by its subtree, so related decisions read together
+function depthFirst(tree: DecisionTree): DecisionTreeNode[] {
+  const out: DecisionTreeNode[] = [];
+  const visit = (id: string) => {
+    const node = tree.nodes[id];
+    if (!node || out.includes(node)) return;
+    out.push(node);
+    node.children.forEach(visit);
+  };
+  tree.index.roots.forEach(visit);
+  return out;
+}
+
+// Cells and list items are single-line; pipes would split a table cell
+function inline(text: string) {
+  return text.replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|");
+}
+
+function status(node: DecisionTreeNode) {
+  return `${node.status} (confidence ${node.confidence})`;
+}
+
+/**
+ * An ADR-style Markdown document: one section per decision with its answer, status, links, rationale,
+ * evidence and revision history.
+ */
+export function renderDecisionTreeMarkdown(tree: DecisionTree, title = "Decision record"): string {
+  const ids = (list: string[]) => (list.length > 0 ? list.join(", ") : "none");
+  const lines = [`# ${title}`, ""];
+  const nodes = depthFirst(tree);
+  if (nodes.length === 0) lines.push("No decisions recorded.", "");
+
+  for (const node of nodes) {
+    lines.push(`## ${node.id}: ${inline(node.question)}`, "");
+    lines.push(`- **Answer:** ${inline(node.answer)}`);
+    lines.push(`- **Status:** ${status(node)}`);
+    lines.push(`- **Parent:** ${node.parent ?? "none"}`);
+    lines.push(`- **Children:** ${ids(node.children)}`);
+    if (node.supersedes) lines.push(`- **Supersedes:** ${node.supersedes}`);
+    if (node.supersededBy) lines.push(`- **Superseded by:** ${node.supersededBy}`);
+    lines.push("", "### Rationale", "", node.rationale.trim(), "");
+
+    lines.push("### Evidence", "");
+    const evidence = node.evidence ?? [];
+    if (evidence.length === 0) lines.push("None recorded.");
+    for (const ref of evidence) lines.push(`- ${inline(ref)}`);
+    lines.push("");
+
+    if (node.history?.length) {
+      lines.push("### History", "", "| Changed | Answer | Rationale | Status | Reason |", "| --- | --- | --- | --- | --- |");
+      for (const h of node.history) {
+        const cells = [h.changedAt ?? "", h.answer, h.rationale, h.status ?? "", h.reason ?? ""];
+        lines.push(`| ${cells.map(inline).join(" | ")} |`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+// Mermaid labels are quoted strings; quotes and brackets are written as entity codes
+function label(text: string) {
+  return inline(text).replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+}
+
+/**
+ * A Mermaid flowchart: parent → child edges, dotted `supersedes` edges, and provisional or deprecated
+ * decisions styled apart from final ones. Node ids are positional because decision ids may contain
+ * characters Mermaid does not accept.
+ */
+export function renderDecisionTreeMermaid(tree: DecisionTree): string {
+  const nodes = depthFirst(tree);
+  const key = new Map(nodes.map((n, i) => [n.id, `d${i}`]));
+  const lines = ["flowchart TD"];
+  for (const node of nodes) {
+    lines.push(`  ${key.get(node.id)}["${label(node.id)}: ${label(node.question)}<br/>${label(node.answer)}"]`);
+  }
+  for (const node of nodes) {
+    for (const child of node.children) lines.push(`  ${key.get(node.id)} --> ${key.get(child)}`);
+  }
+  for (const node of nodes) {
+    if (node.supersedes && key.has(node.supersedes)) {
+      lines.push(`  ${key.get(node.id)} -.->|supersedes| ${key.get(node.supersedes)}`);
+    }
+  }
+  lines.push("  classDef provisional stroke-dasharray: 5 5");
+  lines.push("  classDef deprecated fill:#eee,color:#888");
+  // Superseded decisions no longer hold either, so they share the deprecated style
+  const styleOf = (n: DecisionTreeNode) =>
+    n.status === "deprecated" || n.supersededBy ? "deprecated" : n.status === "provisional" ? "provisional" : undefined;
+  for (const cls of ["provisional", "deprecated"] as const) {
+    const members = nodes.filter((n) => styleOf(n) === cls);
+    if (members.length > 0) lines.push(`  class ${members.map((n) => key.get(n.id)).join(",")} ${cls}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function renderDecisionTree(tree: DecisionTree, format: DecisionRenderFormat): string {
+  return format === "mermaid" ? renderDecisionTreeMermaid(tree) : renderDecisionTreeMarkdown(tree);
+}
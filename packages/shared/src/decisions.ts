@@ -1,4 +1,5 @@
-import { DecisionTree, DecisionTreeNode, WebSpecDecision } from "./types";
+import { canonicalJson } from "./hash";
+import { DecisionTree, DecisionTreeNode, WebSpecDecision, WebSpecDecisionRevision } from "./types";
 
 export function buildDecisionTree(decisions: WebSpecDecision[]): DecisionTree {
   const nodes: Record<string, DecisionTreeNode> = {};
@@ -17,6 +18,8 @@ export function buildDecisionTree(decisions: WebSpecDecision[]): DecisionTree {
     }
   }
 
+  linkSupersessions(nodes);
+
   const roots = Object.values(nodes)
     .filter((n) => !n.parent)
     .map((n) => n.id);
@@ -34,12 +37,178 @@ export function buildDecisionTree(decisions: WebSpecDecision[]): DecisionTree {
     visited.add(id);
   }
 
-  for (const root of roots) visit(root);
+  // From every node, not just roots: a cycle through every would-be root leaves no root to start from
+  for (const id of Object.keys(nodes)) visit(id);
 
   const byId: DecisionTree["index"]["byId"] = {};
   for (const [id, node] of Object.entries(nodes)) {
     byId[id] = { parent: node.parent ?? null, children: [...node.children] };
+    if (node.supersededBy) byId[id].supersededBy = node.supersededBy;
   }
 
   return { nodes, index: { roots, byId } };
 }
+
+/**
+ * Supersession links can be declared on either side (`supersedes` on the new decision, `supersededBy` on the
+ * old one); both sides are filled in. A decision is superseded by at most one other and chains must not loop.
+ */
+function linkSupersessions(nodes: Record<string, DecisionTreeNode>) {
+  const link = (older: string, newer: string, declaredOn: string) => {
+    const o = nodes[older];
+    const n = nodes[newer];
+    const missing = !o ? older : !n ? newer : undefined;
+    if (missing) throw new Error(`Decision "${declaredOn}" references missing decision in supersession: ${missing}`);
+    if (older === newer) throw new Error(`Decision "${older}" supersedes itself`);
+    if (o.supersededBy && o.supersededBy !== newer) {
+      throw new Error(`Decision "${older}" is superseded by both "${o.supersededBy}" and "${newer}"`);
+    }
+    if (n.supersedes && n.supersedes !== older) {
+      throw new Error(`Decision "${newer}" supersedes both "${n.supersedes}" and "${older}"`);
+    }
+    o.supersededBy = newer;
+    n.supersedes = older;
+  };
+
+  const declared = Object.values(nodes).map((d) => ({ id: d.id, supersedes: d.supersedes, supersededBy: d.supersededBy }));
+  for (const d of declared) {
+    if (d.supersedes) link(d.supersedes, d.id, d.id);
+    if (d.supersededBy) link(d.id, d.supersededBy, d.id);
+  }
+
+  for (const start of Object.keys(nodes)) {
+    const seen = new Set<string>([start]);
+    for (let id = nodes[start].supersededBy; id; id = nodes[id].supersededBy) {
+      if (seen.has(id)) throw new Error(`Decision supersession cycle detected at: ${id}`);
+      seen.add(id);
+    }
+  }
+}
+
+/** The decision that currently stands for `id`: the end of its supersession chain. */
+export function currentDecision(tree: DecisionTree, id: string): DecisionTreeNode | undefined {
+  let node = tree.nodes[id];
+  // Bounded so a hand-edited tree with a loop cannot hang callers
+  for (let hops = 0; node?.supersededBy && tree.nodes[node.supersededBy] && hops < Object.keys(tree.nodes).length; hops++) {
+    node = tree.nodes[node.supersededBy];
+  }
+  return node;
+}
+
+// Tree edits below work on the flat decision list and rebuild, so parents, cycles and supersession chains are
+// validated and the index is regenerated on every change. They throw on invalid edits, like buildDecisionTree.
+
+/** The decision records of a tree, without the derived `children`. */
+export function decisionList(tree: DecisionTree | undefined): WebSpecDecision[] {
+  return Object.values(tree?.nodes ?? {}).map((node) => {
+    const decision: WebSpecDecision & { children?: string[] } = { ...node };
+    delete decision.children;
+    return decision;
+  });
+}
+
+function requireDecision(tree: DecisionTree, id: string) {
+  const node = tree.nodes[id];
+  if (!node) throw new Error(`Unknown decision: ${id}`);
+  return node;
+}
+
+// A decision that still stands, i.e. one an in-place status change applies to
+function requireStanding(tree: DecisionTree, id: string) {
+  const node = requireDecision(tree, id);
+  if (node.supersededBy) throw new Error(`Decision "${id}" is superseded by "${node.supersededBy}"`);
+  if (node.status === "deprecated") throw new Error(`Decision "${id}" is deprecated`);
+  return node;
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Edit one decision in place, keeping the record it replaces in its history
+function revise(tree: DecisionTree, id: string, changes: Partial<WebSpecDecision>, changedAt: string, reason: string) {
+  return buildDecisionTree(
+    decisionList(tree).map((d) => {
+      if (d.id !== id) return d;
+      const before: WebSpecDecisionRevision = {
+        answer: d.answer,
+        rationale: d.rationale,
+        status: d.status,
+        confidence: d.confidence,
+        changedAt,
+        reason
+      };
+      return { ...d, ...changes, history: [...(d.history ?? []), before] };
+    })
+  );
+}
+
+export function addDecision(tree: DecisionTree | undefined, decision: WebSpecDecision): DecisionTree {
+  if (tree?.nodes[decision.id]) throw new Error(`Decision already exists: ${decision.id}`);
+  return buildDecisionTree([...decisionList(tree), decision]);
+}
+
+/** Mark a provisional decision final, optionally with a new confidence; the record before is kept in its history. */
+export function finalizeDecision(tree: DecisionTree, id: string, confidence?: number, changedAt = today()): DecisionTree {
+  const node = requireStanding(tree, id);
+  return revise(tree, id, { status: "final", confidence: confidence ?? node.confidence }, changedAt, "finalized");
+}
+
+/**
+ * Retire a decision that no longer holds and has nothing replacing it (record the replacement with `supersedes`
+ * when there is one). The record before is kept in its history; steps citing it then fail to compile.
+ */
+export function deprecateDecision(tree: DecisionTree, id: string, reason = "deprecated", changedAt = today()): DecisionTree {
+  requireStanding(tree, id);
+  return revise(tree, id, { status: "deprecated" }, changedAt, reason);
+}
+
+/** Re-parent a decision; `null` makes it a root. */
+export function moveDecision(tree: DecisionTree, id: string, parent: string | null): DecisionTree {
+  requireDecision(tree, id);
+  return buildDecisionTree(decisionList(tree).map((d) => (d.id === id ? { ...d, parent } : d)));
+}
+
+/**
+ * Delete a decision that was recorded by mistake. Decisions with children must have them moved first;
+ * supersession links to it are dropped (to retire a decision that held, deprecate or supersede it instead).
+ */
+export function removeDecision(tree: DecisionTree, id: string): DecisionTree {
+  const node = requireDecision(tree, id);
+  if (node.children.length > 0) throw new Error(`Decision "${id}" has children: ${node.children.join(", ")}`);
+  return buildDecisionTree(
+    decisionList(tree)
+      .filter((d) => d.id !== id)
+      .map((d) => ({
+        ...d,
+        supersedes: d.supersedes === id ? undefined : d.supersedes,
+        supersededBy: d.supersededBy === id ? undefined : d.supersededBy
+      }))
+  );
+}
+
+export type DecisionImport = {
+  tree: DecisionTree;
+  added: string[];
+  conflicting: string[]; // ids already in the tree with a different record; the tree's record is kept
+};
+
+/** Copy decisions (e.g. a spec's inline `decisions[]`) into a tree, keeping records already there. */
+export function importDecisions(tree: DecisionTree | undefined, decisions: WebSpecDecision[]): DecisionImport {
+  const existing = new Map(decisionList(tree).map((d) => [d.id, d]));
+  const added: string[] = [];
+  const conflicting: string[] = [];
+  for (const d of decisions) {
+    const current = existing.get(d.id);
+    if (!current) added.push(d.id);
+    else if (!sameDecision(current, d)) conflicting.push(d.id);
+  }
+  const incoming = decisions.filter((d) => added.includes(d.id));
+  return { tree: buildDecisionTree([...existing.values(), ...incoming]), added, conflicting };
+}
+
+// An unset parent and the derived supersededBy link do not make records differ
+function sameDecision(a: WebSpecDecision, b: WebSpecDecision) {
+  const comparable = (d: WebSpecDecision) => canonicalJson({ ...d, parent: d.parent ?? null, supersededBy: undefined });
+  return comparable(a) === comparable(b);
+}
@@ -0,0 +1,51 @@
+const PACKAGE_MANAGERS = new Set(["pnpm", "npm", "yarn", "bun"]);
+const ADD_COMMANDS = new Set(["add", "install", "i"]);
+// Options of the package managers that take a value, so the value is not mistaken for the subcommand or a package
+const VALUE_OPTIONS = new Set(["-C", "--dir", "--filter", "-F", "--prefix", "--cwd", "--workspace", "--registry", "--tag"]);
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// "react@18" → "react", "@scope/pkg@^1" → "@scope/pkg"; local paths, URLs and protocols are not registry packages
+function packageName(spec: string) {
+  if (/^[./]/.test(spec) || spec.includes(":")) return undefined;
+  const at = spec.indexOf("@", 1);
+  return at > 0 ? spec.slice(0, at) : spec;
+}
+
+/**
+ * Packages a command adds to a manifest, e.g. `pnpm -C apps/web add react-router zod@3` → ["react-router", "zod"].
+ * Only `add`/`install` subcommands of pnpm, npm, yarn and bun count; `pnpm dlx` or `npm create` add nothing.
+ */
+export function commandDependencies(argv: string[]): string[] {
+  if (!PACKAGE_MANAGERS.has(argv[0])) return [];
+  let i = 1;
+  for (; i < argv.length && argv[i].startsWith("-"); i++) if (VALUE_OPTIONS.has(argv[i])) i++;
+  if (!ADD_COMMANDS.has(argv[i])) return [];
+
+  const names: string[] = [];
+  for (i += 1; i < argv.length; i++) {
+    if (argv[i].startsWith("-")) {
+      if (VALUE_OPTIONS.has(argv[i])) i++;
+      continue;
+    }
+    const name = packageName(argv[i]);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+/** Dependency names declared in a package.json text; empty when it does not parse. */
+export function packageJsonDependencies(text: string): string[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  const pkg = isRecord(json) ? json : {};
+  return [...new Set(DEPENDENCY_FIELDS.map((f) => pkg[f]).flatMap((deps) => (isRecord(deps) ? Object.keys(deps) : [])))];
+}
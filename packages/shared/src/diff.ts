@@ -0,0 +1,86 @@
+export type SequenceEdit<T> =
+  | { kind: "equal"; a: T; b: T; aIndex: number; bIndex: number }
+  | { kind: "removed"; a: T; aIndex: number }
+  | { kind: "added"; b: T; bIndex: number };
+
+/**
+ * Diff two sequences via their longest common subsequence. Edits come out in order, with removals
+ * ahead of additions inside each changed run, which is what line-oriented diff output expects.
+ */
+export function diffSequences<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean = (x, y) => x === y): SequenceEdit<T>[] {
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const edits: SequenceEdit<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && equal(a[i], b[j])) {
+      edits.push({ kind: "equal", a: a[i], b: b[j], aIndex: i, bIndex: j });
+      i += 1;
+      j += 1;
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      edits.push({ kind: "removed", a: a[i], aIndex: i });
+      i += 1;
+    } else {
+      edits.push({ kind: "added", b: b[j], bIndex: j });
+      j += 1;
+    }
+  }
+  return edits;
+}
+
+function splitLines(text: string) {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Render a unified diff (`@@ -l,n +l,n @@` hunks) between two texts. Returns "" when they are equal.
+ */
+export function unifiedDiff(before: string, after: string, opts: { from?: string; to?: string; context?: number } = {}): string {
+  if (before === after) return "";
+  const context = opts.context ?? 3;
+  const edits = diffSequences(splitLines(before), splitLines(after));
+
+  // Group changes into hunks, merging ones separated by at most 2 * context unchanged lines
+  const hunks: Array<[number, number]> = [];
+  edits.forEach((e, k) => {
+    if (e.kind === "equal") return;
+    const last = hunks[hunks.length - 1];
+    if (last && k - last[1] <= 2 * context + 1) last[1] = k;
+    else hunks.push([k, k]);
+  });
+
+  const out: string[] = [];
+  if (opts.from !== undefined || opts.to !== undefined) out.push(`--- ${opts.from ?? "a"}`, `+++ ${opts.to ?? "b"}`);
+  for (const [first, last] of hunks) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(edits.length - 1, last + context);
+    const slice = edits.slice(start, end + 1);
+
+    // Line numbers of the hunk are those of the first line on each side that precedes or starts it
+    let aStart = 0;
+    let bStart = 0;
+    for (const e of edits.slice(0, start)) {
+      if (e.kind !== "added") aStart += 1;
+      if (e.kind !== "removed") bStart += 1;
+    }
+    const aCount = slice.filter((e) => e.kind !== "added").length;
+    const bCount = slice.filter((e) => e.kind !== "removed").length;
+    out.push(`@@ -${aCount ? aStart + 1 : aStart},${aCount} +${bCount ? bStart + 1 : bStart},${bCount} @@`);
+    for (const e of slice) {
+      if (e.kind === "equal") out.push(` ${e.a}`);
+      else if (e.kind === "removed") out.push(`-${e.a}`);
+      else out.push(`+${e.b}`);
+    }
+  }
+  return out.join("\n") + "\n";
+}
@@ -5,3 +5,15 @@ export function sha256Hex(text: string): string {
   const bytes = new TextEncoder().encode(text);
   return bytesToHex(sha256(bytes));
 }
+
+/** JSON with sorted keys and undefined members dropped, so equal values serialize the same whatever their key order. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
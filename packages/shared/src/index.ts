@@ -1,4 +1,12 @@
 export * from "./types";
 export * from "./schemas";
 export * from "./hash";
+export * from "./provenance";
 export * from "./decisions";
+export * from "./decision-render";
+export * from "./shell";
+export * from "./template";
+export * from "./dependencies";
+export * from "./diff";
+export * from "./plan-diff";
+export * from "./json-schema";
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { PlanSchema, StackManifestSchema, WebSpecSchema } from "./schemas";
+
+export type JsonSchema = Record<string, unknown>;
+
+export type JsonSchemaKind = "spec" | "manifest" | "plan";
+
+export const JSON_SCHEMA_KINDS: JsonSchemaKind[] = ["spec", "manifest", "plan"];
+
+const Kind = z.ZodFirstPartyTypeKind;
+
+const optionalTypes = new Set<z.ZodFirstPartyTypeKind>([Kind.ZodOptional, Kind.ZodDefault]);
+
+// Every schema in schemas.ts is a first-party zod type; its def's typeName tells which
+function defOf(schema: z.ZodTypeAny) {
+  return (schema as z.ZodFirstPartySchemaTypes)._def;
+}
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { description: schema.description, ...json } : json;
+}
+
+/**
+ * Convert the subset of zod used by the WebSpec schemas to JSON Schema (draft 2020-12).
+ * Unknown zod types convert to `{}` (anything), which keeps generated schemas permissive rather than wrong.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = defOf(schema);
+  switch (def.typeName) {
+    case Kind.ZodString: {
+      const json: JsonSchema = { type: "string" };
+      for (const c of def.checks) if (c.kind === "min") json.minLength = c.value;
+      return withDescription(schema, json);
+    }
+    case Kind.ZodNumber: {
+      const json: JsonSchema = { type: def.checks.some((c) => c.kind === "int") ? "integer" : "number" };
+      for (const c of def.checks) {
+        if (c.kind === "min") json[c.inclusive ? "minimum" : "exclusiveMinimum"] = c.value;
+        if (c.kind === "max") json[c.inclusive ? "maximum" : "exclusiveMaximum"] = c.value;
+      }
+      return withDescription(schema, json);
+    }
+    case Kind.ZodBoolean:
+      return withDescription(schema, { type: "boolean" });
+    case Kind.ZodLiteral:
+      return withDescription(schema, { const: def.value });
+    case Kind.ZodEnum:
+      return withDescription(schema, { type: "string", enum: [...def.values] });
+    case Kind.ZodArray: {
+      const json: JsonSchema = { type: "array", items: zodToJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      return withDescription(schema, json);
+    }
+    case Kind.ZodObject: {
+      const shape: Record<string, z.ZodTypeAny> = def.shape();
+      const required = Object.entries(shape)
+        .filter(([, v]) => !optionalTypes.has(defOf(v).typeName))
+        .map(([k]) => k);
+      const json: JsonSchema = {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([k, v]) => [k, zodToJsonSchema(v)]))
+      };
+      if (required.length > 0) json.required = required;
+      if (def.unknownKeys === "strict") json.additionalProperties = false;
+      return withDescription(schema, json);
+    }
+    case Kind.ZodRecord:
+      return withDescription(schema, { type: "object", additionalProperties: zodToJsonSchema(def.valueType) });
+    case Kind.ZodUnion:
+      return withDescription(schema, { anyOf: def.options.map(zodToJsonSchema) });
+    case Kind.ZodDiscriminatedUnion:
+      return withDescription(schema, { oneOf: [...def.options.values()].map(zodToJsonSchema) });
+    case Kind.ZodOptional:
+      return withDescription(schema, zodToJsonSchema(def.innerType));
+    case Kind.ZodNullable:
+      return withDescription(schema, { anyOf: [zodToJsonSchema(def.innerType), { type: "null" }] });
+    case Kind.ZodDefault:
+      return withDescription(schema, { ...zodToJsonSchema(def.innerType), default: def.defaultValue() });
+    case Kind.ZodEffects:
+      return withDescription(schema, zodToJsonSchema(def.schema));
+    default:
+      return withDescription(schema, {});
+  }
+}
+
+const ROOTS: Record<JsonSchemaKind, { schema: z.ZodTypeAny; id: string; title: string }> = {
+  spec: { schema: WebSpecSchema, id: "webspec.schema.json", title: "WebSpec (webspec/v0.1, webspec/v0.2)" },
+  manifest: { schema: StackManifestSchema, id: "stack-manifest.schema.json", title: "WebSpec stack manifest" },
+  plan: { schema: PlanSchema, id: "plan.schema.json", title: "WebSpec plan (webspec/plan-v0.1)" }
+};
+
+/** JSON Schema for WebSpec specs, stack manifests or compiled plans, e.g. for editor validation. */
+export function webSpecJsonSchema(kind: JsonSchemaKind): JsonSchema {
+  const root = ROOTS[kind];
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $id: root.id,
+    title: root.title,
+    ...zodToJsonSchema(root.schema)
+  };
+}
@@ -0,0 +1,217 @@
+import { diffSequences, unifiedDiff } from "./diff";
+import { canonicalJson } from "./hash";
+import type { Plan, PlanAssumption, PlanCheck, PlanNonGoal, PlanOp, PlanStep } from "./types";
+
+export type PlanFieldChange = {
+  field: "target" | "presetVersion" | "specHash" | "assumptions" | "nonGoals";
+  before: unknown;
+  after: unknown;
+};
+
+export type PlanOpChange =
+  | { change: "added"; index: number; op: PlanOp }
+  | { change: "removed"; index: number; op: PlanOp }
+  // Same kind and target path with different content/vars; contentDiff is a unified diff for file writes
+  | { change: "changed"; index: number; before: PlanOp; after: PlanOp; contentDiff?: string };
+
+export type PlanStepDiff = {
+  id: string;
+  change: "added" | "removed" | "changed" | "unchanged";
+  moved?: { from: number; to: number }; // step positions, set when the step changed place relative to the others
+  requires?: { before: string[]; after: string[] };
+  ops: PlanOpChange[];
+  checks: { added: PlanCheck[]; removed: PlanCheck[] };
+};
+
+export type PlanDiff = {
+  // true when both plans make the agent do the same thing (specHash alone may differ)
+  equal: boolean;
+  fields: PlanFieldChange[];
+  steps: PlanStepDiff[];
+};
+
+// `via` only records which macro produced an op, so it does not count as a change
+function opKey(op: PlanOp) {
+  return canonicalJson({ ...op, via: undefined });
+}
+
+function opTarget(op: PlanOp) {
+  return op.kind === "RUN" ? undefined : `${op.kind}:${op.path}`;
+}
+
+function diffOps(before: PlanOp[], after: PlanOp[]): PlanOpChange[] {
+  const changes: PlanOpChange[] = [];
+  let removed: Array<{ op: PlanOp; index: number }> = [];
+  let added: Array<{ op: PlanOp; index: number }> = [];
+
+  // Within a run of edits, a removal and an addition writing the same path are one changed op
+  const flush = () => {
+    for (const a of added) {
+      const target = opTarget(a.op);
+      const k = target === undefined ? -1 : removed.findIndex((r) => opTarget(r.op) === target);
+      if (k < 0) {
+        changes.push({ change: "added", index: a.index, op: a.op });
+        continue;
+      }
+      const [r] = removed.splice(k, 1);
+      const contentDiff =
+        "content" in r.op && "content" in a.op ? unifiedDiff(r.op.content, a.op.content) || undefined : undefined;
+      changes.push({ change: "changed", index: a.index, before: r.op, after: a.op, contentDiff });
+    }
+    for (const r of removed) changes.push({ change: "removed", index: r.index, op: r.op });
+    removed = [];
+    added = [];
+  };
+
+  for (const e of diffSequences(before, after, (x, y) => opKey(x) === opKey(y))) {
+    if (e.kind === "removed") removed.push({ op: e.a, index: e.aIndex });
+    else if (e.kind === "added") added.push({ op: e.b, index: e.bIndex });
+    else flush();
+  }
+  flush();
+  return changes;
+}
+
+function diffChecks(before: PlanCheck[], after: PlanCheck[]) {
+  const beforeKeys = new Set(before.map(canonicalJson));
+  const afterKeys = new Set(after.map(canonicalJson));
+  return {
+    added: after.filter((c) => !beforeKeys.has(canonicalJson(c))),
+    removed: before.filter((c) => !afterKeys.has(canonicalJson(c)))
+  };
+}
+
+function diffStep(id: string, a: PlanStep | undefined, b: PlanStep | undefined): PlanStepDiff {
+  const ops = diffOps(a?.ops ?? [], b?.ops ?? []);
+  const checks = diffChecks(a?.checks ?? [], b?.checks ?? []);
+  if (!a || !b) return { id, change: a ? "removed" : "added", ops, checks };
+
+  const requires =
+    canonicalJson([...(a.requires ?? [])].sort()) === canonicalJson([...(b.requires ?? [])].sort())
+      ? undefined
+      : { before: a.requires ?? [], after: b.requires ?? [] };
+  const changed = requires !== undefined || ops.length > 0 || checks.added.length > 0 || checks.removed.length > 0;
+  return { id, change: changed ? "changed" : "unchanged", requires, ops, checks };
+}
+
+/**
+ * Compare two compiled plans step by step. Steps are matched by id; the result lists every step of both
+ * plans in the order of `b`, with removed steps kept where they used to be.
+ */
+export function diffPlans(a: Plan, b: Plan): PlanDiff {
+  const fields: PlanFieldChange[] = [];
+  for (const field of ["target", "presetVersion", "specHash"] as const) {
+    if (a[field] !== b[field]) fields.push({ field, before: a[field], after: b[field] });
+  }
+  // Pre-flight checks change what has to hold before the agent starts
+  if (canonicalJson(a.assumptions ?? []) !== canonicalJson(b.assumptions ?? [])) {
+    fields.push({ field: "assumptions", before: a.assumptions ?? [], after: b.assumptions ?? [] });
+  }
+  // So do non-goals: the runtime refuses commands and watches the workdir by them
+  if (canonicalJson(a.nonGoals ?? []) !== canonicalJson(b.nonGoals ?? [])) {
+    fields.push({ field: "nonGoals", before: a.nonGoals ?? [], after: b.nonGoals ?? [] });
+  }
+
+  const aById = new Map(a.steps.map((s, i) => [s.id, { step: s, index: i }]));
+  const bById = new Map(b.steps.map((s, i) => [s.id, { step: s, index: i }]));
+
+  // Steps present in both plans whose relative order is not part of the longest common ordering have moved
+  const common = (steps: PlanStep[], other: Map<string, unknown>) => steps.map((s) => s.id).filter((id) => other.has(id));
+  const moved = new Set(
+    diffSequences(common(a.steps, bById), common(b.steps, aById))
+      .flatMap((e) => (e.kind === "removed" ? [e.a] : []))
+  );
+
+  const steps = diffSequences(
+    a.steps.map((s) => s.id),
+    b.steps.map((s) => s.id)
+  )
+    // a moved step shows up as removed and added; keep only its new position
+    .filter((e) => !(e.kind === "removed" && bById.has(e.a)))
+    .map((e) => {
+      const id = e.kind === "removed" ? e.a : e.b;
+      const before = aById.get(id);
+      const after = bById.get(id);
+      const diff = diffStep(id, before?.step, after?.step);
+      if (moved.has(id) && before && after) {
+        diff.moved = { from: before.index, to: after.index };
+        if (diff.change === "unchanged") diff.change = "changed";
+      }
+      return diff;
+    });
+
+  const equal = fields.every((f) => f.field === "specHash") && steps.every((s) => s.change === "unchanged");
+  return { equal, fields, steps };
+}
+
+function describeOp(op: PlanOp) {
+  if (op.kind === "RUN") return `RUN ${op.cmd}${op.cwd ? ` (cwd: ${op.cwd})` : ""}`;
+  if (op.kind === "WRITE_TEMPLATE") return `WRITE_TEMPLATE ${op.path} (${op.template})`;
+  return `${op.kind} ${op.path}`;
+}
+
+function describeCheck(check: PlanCheck) {
+  const { kind, ...rest } = check;
+  return `${kind} ${Object.values(rest)
+    .map((v) => (typeof v === "string" ? v : JSON.stringify(v)))
+    .join(" ")}`;
+}
+
+function describeNonGoal(goal: PlanNonGoal) {
+  const rules = (["paths", "commands", "dependencies"] as const)
+    .filter((rule) => goal.forbid[rule]?.length)
+    .map((rule) => `${rule} ${goal.forbid[rule]!.join(", ")}`);
+  return `${goal.id}: ${rules.join("; ") || "(no rules)"}`;
+}
+
+// Lines only in before as "-", lines only in after as "+"
+function diffLines(before: Set<string>, after: Set<string>) {
+  return [
+    ...[...before].filter((line) => !after.has(line)).map((line) => `  - ${line}`),
+    ...[...after].filter((line) => !before.has(line)).map((line) => `  + ${line}`)
+  ];
+}
+
+const MARK = { added: "+", removed: "-", changed: "~", unchanged: " " } as const;
+
+/** Render a plan diff as plain text, e.g. for a PR comment. */
+export function formatPlanDiff(diff: PlanDiff): string {
+  if (diff.equal) return "Plans are equivalent.\n";
+
+  const lines: string[] = [];
+  const counts = (change: PlanStepDiff["change"]) => diff.steps.filter((s) => s.change === change).length;
+  lines.push(`Plan diff: ${counts("added")} added, ${counts("removed")} removed, ${counts("changed")} changed steps`);
+  for (const f of diff.fields) {
+    if (f.field === "assumptions") {
+      const describe = (list: PlanAssumption[]) =>
+        new Set(list.map((x) => `${x.id}: ${x.checks.map(describeCheck).join("; ") || "(asserted)"}`));
+      lines.push("assumptions:", ...diffLines(describe(f.before as PlanAssumption[]), describe(f.after as PlanAssumption[])));
+    } else if (f.field === "nonGoals") {
+      const describe = (list: PlanNonGoal[]) => new Set(list.map(describeNonGoal));
+      lines.push("nonGoals:", ...diffLines(describe(f.before as PlanNonGoal[]), describe(f.after as PlanNonGoal[])));
+    } else lines.push(`${f.field}: ${String(f.before)} -> ${String(f.after)}`);
+  }
+
+  for (const step of diff.steps) {
+    if (step.change === "unchanged") continue;
+    lines.push("");
+    lines.push(`${MARK[step.change]} step ${step.id}${step.moved ? ` (moved ${step.moved.from} -> ${step.moved.to})` : ""}`);
+    if (step.requires) lines.push(`    requires: [${step.requires.before.join(", ")}] -> [${step.requires.after.join(", ")}]`);
+    for (const op of step.ops) {
+      if (op.change !== "changed") {
+        lines.push(`    ${MARK[op.change]} ${describeOp(op.op)}`);
+        continue;
+      }
+      lines.push(`    ~ ${describeOp(op.after)}`);
+      if (op.contentDiff) lines.push(...op.contentDiff.trimEnd().split("\n").map((l) => `      ${l}`));
+      else if (op.before.kind === "WRITE_TEMPLATE" && op.after.kind === "WRITE_TEMPLATE") {
+        if (op.before.template !== op.after.template) lines.push(`      template: ${op.before.template} -> ${op.after.template}`);
+        const [before, after] = [canonicalJson(op.before.vars ?? {}), canonicalJson(op.after.vars ?? {})];
+        if (before !== after) lines.push(`      vars: ${before} -> ${after}`);
+      }
+    }
+    for (const c of step.checks.removed) lines.push(`    - check ${describeCheck(c)}`);
+    for (const c of step.checks.added) lines.push(`    + check ${describeCheck(c)}`);
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,22 @@
+import { canonicalJson, sha256Hex } from "./hash";
+import { PlanSchema } from "./schemas";
+import type { Plan } from "./types";
+
+/** Hash of a JSON value by content, so key order and formatting do not change it. */
+export function contentHash(value: unknown): string {
+  return sha256Hex(canonicalJson(value));
+}
+
+// Registry entries carry bookkeeping such as __stackRoot, which depends on where the stacks live on disk
+export function manifestHash(manifest: Record<string, unknown>): string {
+  return contentHash(Object.fromEntries(Object.entries(manifest).filter(([k]) => !k.startsWith("__"))));
+}
+
+/**
+ * Digest over everything the runtime acts on: the plan as PlanSchema reads it, plus its provenance hashes.
+ * The stored digest itself is left out, so a plan can be checked against its own `provenance.digest`.
+ */
+export function planDigest(plan: Plan): string {
+  const parsed = PlanSchema.parse({ ...plan, provenance: undefined });
+  return contentHash({ ...parsed, provenance: plan.provenance && { ...plan.provenance, digest: undefined } });
+}
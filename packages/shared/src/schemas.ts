@@ -15,19 +15,107 @@ const UISchema = z.object({
   shadcn: z.object({ components: z.array(z.string().min(1)).default([]) }).optional()
 });
 
+const PathTextSchema = z.object({ path: z.string().min(1), text: z.string().min(1) }).strict();
+
+// Each ensure is a single-key object; strict variants make a misspelled key fail instead of matching nothing
+export const WebSpecEnsureSchema = z.union([
+  z.object({ exists: z.string().min(1).describe("File that must exist") }).strict(),
+  z.object({ contains: PathTextSchema.describe("File that must contain text") }).strict(),
+  z.object({ routeExists: z.string().min(1).describe("Route registered with the stack's router") }).strict(),
+  z.object({ cmdOk: z.string().min(1).describe("Command that must exit 0") }).strict(),
+  z
+    .object({
+      trackedOnly: z
+        .object({ glob: z.string().min(1), allow: z.array(z.string().min(1)) })
+        .strict()
+        .describe("Only the allowed files under glob may be tracked by git")
+    })
+    .strict(),
+  z
+    .object({
+      docSection: z.object({ path: z.string().min(1), heading: z.string().min(1) }).strict().describe("Markdown heading that must exist")
+    })
+    .strict(),
+  z.object({ docContains: PathTextSchema.describe("Document that must contain text") }).strict(),
+  z
+    .object({
+      docContainsFuzzy: z
+        .object({
+          path: z.string().min(1),
+          text: z.string().min(1),
+          threshold: z.number().min(0).max(1).optional(),
+          gate: z.boolean().optional()
+        })
+        .strict()
+        .describe("Document that must contain text approximately (token overlap >= threshold)")
+    })
+    .strict(),
+  z.object({ artifactExists: z.object({ path: z.string().min(1) }).strict().describe("Artifact that must exist") }).strict()
+]);
+
+const TemplateVarsSchema = z.record(z.unknown());
+
+export const WebSpecActionSchema = z.union([
+  z.object({ run: z.string().min(1).describe("Command to run (no shell operators)") }).strict(),
+  z
+    .object({
+      writeFile: z
+        .object({
+          path: z.string().min(1),
+          content: z.string().optional(),
+          template: z.string().min(1).optional(),
+          vars: TemplateVarsSchema.optional()
+        })
+        .strict()
+        .describe("Write a file from content, or from a stack template")
+    })
+    .strict(),
+  z
+    .object({
+      appendFile: z.object({ path: z.string().min(1), content: z.string() }).strict().describe("Append content to a file")
+    })
+    .strict(),
+  z
+    .object({
+      writeTemplate: z
+        .object({ path: z.string().min(1), template: z.string().min(1), vars: TemplateVarsSchema.optional() })
+        .strict()
+        .describe("Render a stack template to a file")
+    })
+    .strict(),
+  z
+    .object({
+      macro: z
+        .object({ name: z.string().min(1), args: z.record(z.unknown()).optional() })
+        .strict()
+        .describe("Expand a macro of the target stack")
+    })
+    .strict()
+]);
+
 const StepSchema = z.object({
   id: z.string().min(1),
   requires: z.array(z.string().min(1)).optional(),
   claims: z.array(z.string().min(1)).optional(),
   decisions: z.array(z.string().min(1)).optional(),
-  actions: z.array(z.any()),
-  ensures: z.array(z.any())
+  actions: z.array(WebSpecActionSchema),
+  ensures: z.array(WebSpecEnsureSchema)
 });
 
+const NonGoalRulesSchema = z
+  .object({
+    paths: z.array(z.string().min(1)).optional().describe("Globs no op may write"),
+    commands: z.array(z.string().min(1)).optional().describe("Command argv patterns no op may run"),
+    dependencies: z.array(z.string().min(1)).optional().describe("Package names (with * wildcards) no op may add")
+  })
+  .strict();
+
 const IntentSchema = z.object({
   summary: z.string().min(1),
   invariants: z.array(z.object({ id: z.string().min(1), text: z.string().min(1) })).optional(),
-  nonGoals: z.array(z.object({ id: z.string().min(1), text: z.string().min(1) })).optional()
+  nonGoals: z
+    .array(z.object({ id: z.string().min(1), text: z.string().min(1), forbid: NonGoalRulesSchema.optional() }))
+    .optional()
 });
 
 const DocsSchema = z.object({
@@ -67,22 +155,44 @@ const AssumptionsSchema = z.array(
   z.object({
     id: z.string().min(1),
     text: z.string().min(1),
-    status: z.enum(["verified", "unverified"])
+    status: z.enum(["verified", "unverified"]),
+    verifiedBy: z.array(WebSpecEnsureSchema).min(1).optional()
   })
 );
 
-const DecisionsSchema = z.array(
-  z.object({
-    id: z.string().min(1),
-    parent: z.string().min(1).nullable().optional(),
-    question: z.string().min(1),
-    answer: z.string().min(1),
-    rationale: z.string().min(1),
-    status: z.enum(["provisional", "final"]),
-    confidence: z.number().min(0).max(1),
-    evidence: z.array(z.string().min(1)).optional()
-  })
-);
+const DecisionStatusSchema = z.enum(["provisional", "final", "deprecated"]);
+
+export const WebSpecDecisionSchema = z.object({
+  id: z.string().min(1),
+  parent: z.string().min(1).nullable().optional(),
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  rationale: z.string().min(1),
+  status: DecisionStatusSchema,
+  confidence: z.number().min(0).max(1),
+  evidence: z.array(z.string().min(1)).optional(),
+  supersedes: z.string().min(1).optional(),
+  supersededBy: z.string().min(1).optional(),
+  history: z
+    .array(
+      z.object({
+        answer: z.string().min(1),
+        rationale: z.string().min(1),
+        status: DecisionStatusSchema.optional(),
+        confidence: z.number().min(0).max(1).optional(),
+        changedAt: z.string().min(1).optional(),
+        reason: z.string().min(1).optional()
+      })
+    )
+    .optional()
+});
+
+const DecisionsSchema = z.array(WebSpecDecisionSchema);
+
+const DecisionPolicySchema = z.object({
+  minConfidence: z.number().min(0).max(1).optional(),
+  requireEvidenceForWrites: z.boolean().optional()
+});
 
 const V1Schema = z.object({
   lang: z.literal("webspec/v0.1").default("webspec/v0.1"),
@@ -95,10 +205,13 @@ const V1Schema = z.object({
   steps: z.array(StepSchema).optional()
 });
 
+const ImportsSchema = z.array(z.string().min(1));
+
 const V2Schema = z.object({
   lang: z.literal("webspec/v0.2"),
   target: z.string().min(1),
   project: ProjectSchema,
+  imports: ImportsSchema.optional(),
   workspace: WorkspaceSchema.optional(),
   ui: UISchema.optional(),
   routes: z.array(z.object({ path: z.string().min(1), page: z.string().min(1) })).optional(),
@@ -108,14 +221,36 @@ const V2Schema = z.object({
   artifacts: ArtifactsSchema.optional(),
   assumptions: AssumptionsSchema.optional(),
   decisions: DecisionsSchema.optional(),
+  policy: z.object({ decisions: DecisionPolicySchema.optional() }).optional(),
   quality: z.object({ gates: z.array(z.string().min(1)).default([]) }).optional(),
   steps: z.array(StepSchema).optional()
 });
 
 export const WebSpecSchema = z.discriminatedUnion("lang", [V1Schema, V2Schema]);
 
+/** A shared spec fragment pulled in through `imports:`. It can only contribute mergeable sections. */
+export const WebSpecFragmentSchema = z
+  .object({
+    imports: ImportsSchema.optional(),
+    intent: IntentSchema.omit({ summary: true }).strict().optional(),
+    docs: DocsSchema.optional(),
+    effects: EffectsSchema.pick({ writeScopes: true }).strict().optional(),
+    artifacts: ArtifactsSchema.optional(),
+    assumptions: AssumptionsSchema.optional(),
+    decisions: DecisionsSchema.optional(),
+    steps: z.array(StepSchema).optional()
+  })
+  .strict();
+
+const StackMacroArgTypeSchema = z.enum(["path", "string", "string[]", "json"]);
+
 export const StackMacroDefSchema = z.object({
-  args: z.record(z.enum(["path", "string", "string[]", "json"])),
+  args: z.record(
+    z.union([
+      StackMacroArgTypeSchema,
+      z.object({ type: StackMacroArgTypeSchema, optional: z.boolean().optional(), default: z.unknown().optional() })
+    ])
+  ),
   expandsTo: z.array(
     z.union([
       z.object({ kind: z.literal("run"), cmd: z.string().min(1), cwd: z.string().optional() }),
@@ -126,7 +261,8 @@ export const StackMacroDefSchema = z.object({
         path: z.string().min(1),
         template: z.string().min(1),
         vars: z.record(z.string()).optional()
-      })
+      }),
+      z.object({ kind: z.literal("macro"), name: z.string().min(1), args: z.record(z.unknown()).optional() })
     ])
   )
 });
@@ -150,20 +286,73 @@ export const StackManifestSchema = z.object({
     denySubstrings: z.array(z.string().min(1)).optional()
   }),
   semantics: z.any().optional(),
+  policy: z
+    .object({
+      checkCoverage: z.object({ minRatio: z.number().min(0).max(1) }).optional(),
+      decisions: DecisionPolicySchema.optional()
+    })
+    .optional(),
   macros: z.record(StackMacroDefSchema).optional()
 });
 
+const PlanOpOriginSchema = { via: z.array(z.string().min(1)).optional() };
+
+export const PlanOpSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("RUN"), cmd: z.string().min(1), cwd: z.string().optional(), ...PlanOpOriginSchema }),
+  z.object({ kind: z.literal("WRITE_FILE"), path: z.string().min(1), content: z.string(), ...PlanOpOriginSchema }),
+  z.object({ kind: z.literal("APPEND_FILE"), path: z.string().min(1), content: z.string(), ...PlanOpOriginSchema }),
+  z.object({
+    kind: z.literal("WRITE_TEMPLATE"),
+    path: z.string().min(1),
+    template: z.string().min(1),
+    vars: TemplateVarsSchema.optional(),
+    ...PlanOpOriginSchema
+  })
+]);
+
+export const PlanCheckSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("file.exists"), path: z.string().min(1) }),
+  z.object({ kind: z.literal("file.contains"), path: z.string().min(1), text: z.string() }),
+  z.object({ kind: z.literal("route.exists"), route: z.string().min(1) }),
+  z.object({ kind: z.literal("cmd.ok"), cmd: z.string().min(1) }),
+  z.object({ kind: z.literal("git.trackedOnly"), glob: z.string().min(1), allow: z.array(z.string()) }),
+  z.object({ kind: z.literal("doc.section"), path: z.string().min(1), heading: z.string().min(1) }),
+  z.object({ kind: z.literal("doc.contains"), path: z.string().min(1), text: z.string() }),
+  z.object({
+    kind: z.literal("doc.contains_fuzzy"),
+    path: z.string().min(1),
+    text: z.string(),
+    threshold: z.number().min(0).max(1),
+    gate: z.boolean().optional()
+  }),
+  z.object({ kind: z.literal("artifact.exists"), path: z.string().min(1) })
+]);
+
 export const PlanSchema = z.object({
   lang: z.literal("webspec/plan-v0.1"),
   target: z.string().min(1),
   presetVersion: z.number().int().positive(),
   specHash: z.string().min(1),
+  provenance: z
+    .object({
+      manifest: z.string().min(1),
+      templates: z.record(z.string().min(1)),
+      decisionTree: z.string().min(1).optional(),
+      digest: z.string().min(1)
+    })
+    .optional(),
+  assumptions: z
+    .array(z.object({ id: z.string().min(1), text: z.string().min(1), checks: z.array(PlanCheckSchema) }))
+    .optional(),
+  nonGoals: z.array(z.object({ id: z.string().min(1), text: z.string().min(1), forbid: NonGoalRulesSchema })).optional(),
   steps: z.array(
     z.object({
       id: z.string().min(1),
       requires: z.array(z.string()).default([]),
-      ops: z.array(z.any()),
-      checks: z.array(z.any())
+      ops: z.array(PlanOpSchema),
+      checks: z.array(PlanCheckSchema),
+      claims: z.array(z.string()).optional(),
+      decisions: z.array(z.string()).optional()
     })
   )
 });
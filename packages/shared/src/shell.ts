@@ -0,0 +1,106 @@
+export type ShellParse = { ok: true; argv: string[] } | { ok: false; error: string };
+
+const OPERATORS = ["&&", "||", ">>", "<<", "&", "|", ";", ">", "<", "(", ")"];
+
+/**
+ * Split a command into argv using POSIX-shell quoting rules.
+ * Commands run without a shell, so anything a shell would interpret — control operators (&&, ||, ;, |, &),
+ * redirections, subshells, command substitution — is rejected instead of being passed through as an argument.
+ */
+export function parseShellCommand(cmd: string): ShellParse {
+  const argv: string[] = [];
+  let current = "";
+  let inToken = false;
+  let i = 0;
+
+  const fail = (error: string): ShellParse => ({ ok: false, error });
+
+  while (i < cmd.length) {
+    const ch = cmd[i];
+
+    if (ch === "'") {
+      const end = cmd.indexOf("'", i + 1);
+      if (end < 0) return fail("unterminated single quote");
+      current += cmd.slice(i + 1, end);
+      inToken = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '"') {
+      i += 1;
+      let closed = false;
+      while (i < cmd.length) {
+        const c = cmd[i];
+        if (c === '"') {
+          closed = true;
+          i += 1;
+          break;
+        }
+        if (c === "`" || (c === "$" && cmd[i + 1] === "(")) return fail("command substitution is not allowed");
+        if (c === "\\" && i + 1 < cmd.length && '"\\$`'.includes(cmd[i + 1])) {
+          current += cmd[i + 1];
+          i += 2;
+          continue;
+        }
+        current += c;
+        i += 1;
+      }
+      if (!closed) return fail("unterminated double quote");
+      inToken = true;
+      continue;
+    }
+
+    if (ch === "\\") {
+      if (i + 1 >= cmd.length) return fail("trailing backslash");
+      if (cmd[i + 1] !== "\n") current += cmd[i + 1];
+      inToken = true;
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`" || (ch === "$" && cmd[i + 1] === "(")) return fail("command substitution is not allowed");
+
+    if (ch === "\n") return fail('shell operator "newline" is not allowed');
+
+    if (/\s/.test(ch)) {
+      if (inToken) argv.push(current);
+      current = "";
+      inToken = false;
+      i += 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => cmd.startsWith(o, i));
+    if (op) {
+      return fail(`shell operator "${op}" is not allowed`);
+    }
+
+    current += ch;
+    inToken = true;
+    i += 1;
+  }
+
+  if (inToken) argv.push(current);
+  if (argv.length === 0) return fail("empty command");
+  return { ok: true, argv };
+}
+
+/** Match a whole word against a pattern where `*` matches any run of characters (e.g. "@angular/*"). */
+export function matchesWildcard(pattern: string, token: string) {
+  if (pattern === "*") return true;
+  if (!pattern.includes("*")) return pattern === token;
+  const re = new RegExp("^" + pattern.split("*").map((p) => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$");
+  return re.test(token);
+}
+
+/**
+ * Match argv against an allow rule written as an argv prefix pattern, e.g. "pnpm -C * add *".
+ * Each pattern word matches one argument (`*` is a wildcard within the word); arguments past the pattern are free.
+ * A bare binary such as "pnpm" therefore allows every pnpm invocation.
+ */
+export function matchesCommandPattern(argv: string[], pattern: string): boolean {
+  const parsed = parseShellCommand(pattern);
+  if (!parsed.ok || parsed.argv.length > argv.length) return false;
+  return parsed.argv.every((p, i) => matchesWildcard(p, argv[i]));
+}
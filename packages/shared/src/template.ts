@@ -0,0 +1,264 @@
+/**
+ * Stack template language: a small, logic-less subset of Handlebars.
+ *
+ *   {{NAME}} {{route.path}} {{.}}         values; dotted names read fields, `.` is the current list item
+ *   {{NAME | json}} {{NAME | js | html}}  escaping filters, applied left to right
+ *   {{#each LIST}}…{{else}}…{{/each}}     loop; names resolve against the item first; {{@index}} {{@first}} {{@last}}
+ *   {{#if NAME}}…{{else}}…{{/if}}         conditional ({{#unless}} negates); empty lists are false
+ *   {{> vite/route.tpl}}                  partial, a path inside the stack's templates/ dir
+ *
+ * Templates cannot call code or reach outside their vars. Braces that are not a valid tag, such as a JSX style
+ * object `{{ padding: 24 }}`, are left as they are. Block tags alone on a line take the line with them.
+ */
+
+export type TemplateFilter = "json" | "js" | "html";
+
+export const TEMPLATE_FILTERS: TemplateFilter[] = ["json", "js", "html"];
+
+export type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "var"; name: string; filters: TemplateFilter[] }
+  | { type: "each"; name: string; body: TemplateNode[]; inverse: TemplateNode[] }
+  | { type: "if"; name: string; negate: boolean; body: TemplateNode[]; inverse: TemplateNode[] }
+  | { type: "partial"; name: string; indent: string };
+
+export type TemplateParse = { ok: true; nodes: TemplateNode[] } | { ok: false; error: string };
+
+/** Loads a partial by its path under the templates/ dir; undefined when it does not exist. */
+export type PartialLoader = (name: string) => string | undefined;
+
+export type TemplateAnalysis = {
+  required: string[]; // top-level vars used unconditionally: rendering without them leaves holes
+  optional: string[]; // vars only used in conditionals or loops, where a list item may provide them instead
+  partials: string[]; // every partial reached, transitively
+};
+
+const TAG = /\{\{([^{}]*)\}\}/g;
+const NAME = String.raw`(?:\.|@?[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*)`;
+const VAR_TAG = new RegExp(String.raw`^(${NAME})((?:\s*\|\s*[A-Za-z]+)*)$`);
+const OPEN_TAG = new RegExp(String.raw`^#(each|if|unless)\s+(${NAME})$`);
+const CLOSE_TAG = /^\/(each|if|unless)$/;
+const PARTIAL_TAG = /^>\s*(\S+)$/;
+const MAX_PARTIAL_DEPTH = 8;
+
+type Block = { keyword: string; node: Extract<TemplateNode, { type: "each" | "if" }>; inElse: boolean; line: number };
+
+function lineOf(text: string, offset: number) {
+  return text.slice(0, offset).split("\n").length;
+}
+
+export function parseTemplate(text: string): TemplateParse {
+  const root: TemplateNode[] = [];
+  const open: Block[] = [];
+  const target = () => {
+    const top = open[open.length - 1];
+    return !top ? root : top.inElse ? top.node.inverse : top.node.body;
+  };
+  const fail = (offset: number, message: string): TemplateParse => ({
+    ok: false,
+    error: `line ${lineOf(text, offset)}: ${message}`
+  });
+
+  let last = 0;
+  for (const m of text.matchAll(TAG)) {
+    const content = m[1];
+    const offset = m.index!;
+    const isBlock = /^[#/>]/.test(content) || content === "else";
+    const isVar = !isBlock && VAR_TAG.exec(content);
+    if (!isVar && !isBlock) continue; // not a tag: keep the braces as text
+
+    let start = offset;
+    let end = offset + m[0].length;
+    let indent = "";
+    if (isBlock) {
+      // Standalone: only whitespace around the tag on its line, so the whole line goes
+      const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+      const before = text.slice(lineStart, offset);
+      const after = /^[ \t]*(\r?\n|$)/.exec(text.slice(end));
+      if (lineStart >= last && /^[ \t]*$/.test(before) && after) {
+        indent = before;
+        start = lineStart;
+        end += after[0].length;
+      }
+    }
+    if (start > last) target().push({ type: "text", text: text.slice(last, start) });
+    last = end;
+
+    if (isVar) {
+      const filters = isVar[2].split("|").slice(1).map((f) => f.trim());
+      const unknown = filters.find((f) => !TEMPLATE_FILTERS.includes(f as TemplateFilter));
+      if (unknown) return fail(offset, `unknown filter "${unknown}" (known: ${TEMPLATE_FILTERS.join(", ")})`);
+      target().push({ type: "var", name: isVar[1], filters: filters as TemplateFilter[] });
+      continue;
+    }
+
+    const opening = OPEN_TAG.exec(content);
+    const closing = CLOSE_TAG.exec(content);
+    const partial = PARTIAL_TAG.exec(content);
+    if (opening) {
+      const [, keyword, name] = opening;
+      const node: Block["node"] =
+        keyword === "each"
+          ? { type: "each", name, body: [], inverse: [] }
+          : { type: "if", name, negate: keyword === "unless", body: [], inverse: [] };
+      target().push(node);
+      open.push({ keyword, node, inElse: false, line: lineOf(text, offset) });
+    } else if (closing) {
+      const top = open.pop();
+      if (!top) return fail(offset, `{{/${closing[1]}}} closes nothing`);
+      if (top.keyword !== closing[1]) return fail(offset, `{{/${closing[1]}}} closes {{#${top.keyword}}} from line ${top.line}`);
+    } else if (content === "else") {
+      const top = open[open.length - 1];
+      if (!top || top.inElse) return fail(offset, "{{else}} outside {{#each}}, {{#if}} or {{#unless}}");
+      top.inElse = true;
+    } else if (partial) {
+      target().push({ type: "partial", name: partial[1], indent });
+    } else {
+      return fail(offset, `malformed tag {{${content}}}`);
+    }
+  }
+  if (last < text.length) target().push({ type: "text", text: text.slice(last) });
+  const unclosed = open[open.length - 1];
+  if (unclosed) return { ok: false, error: `line ${unclosed.line}: {{#${unclosed.keyword}}} is never closed` };
+  return { ok: true, nodes: root };
+}
+
+type Scope = { value: unknown; index?: number; length?: number };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+// Own properties only, so `constructor` or `__proto__` never reach anything
+function lookup(name: string, scopes: Scope[]): unknown {
+  const inner = scopes[scopes.length - 1];
+  if (name === ".") return inner.value;
+  if (name.startsWith("@")) {
+    const item = [...scopes].reverse().find((s) => s.index !== undefined);
+    if (!item) return undefined;
+    if (name === "@index") return item.index;
+    if (name === "@first") return item.index === 0;
+    if (name === "@last") return item.index === item.length! - 1;
+    return undefined;
+  }
+  const [head, ...rest] = name.split(".");
+  const scope = [...scopes].reverse().find((s) => isRecord(s.value) && Object.hasOwn(s.value, head));
+  let value = scope ? (scope.value as Record<string, unknown>)[head] : undefined;
+  for (const key of rest) value = isRecord(value) && Object.hasOwn(value, key) ? value[key] : undefined;
+  return value;
+}
+
+function truthy(value: unknown) {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown) {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+function applyFilter(value: unknown, filter: TemplateFilter): string {
+  if (filter === "json") return JSON.stringify(value ?? null);
+  if (filter === "html") return stringify(value).replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+  // js: safe inside '…', "…" or `…` string literals, and inside an inline <script>
+  return stringify(value)
+    .replace(/[\\'"`]/g, "\\$&")
+    .replace(/\$\{/g, "\\${")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029")
+    .replace(/<\//g, "<\\/");
+}
+
+// Partials resolve inside the templates/ dir only
+function checkPartialName(name: string) {
+  if (name.startsWith("/") || name.includes("\\") || name.split("/").includes("..")) {
+    throw new Error(`Partial ${name} must be a relative path inside the stack's templates directory`);
+  }
+}
+
+function loadPartialNodes(name: string, loadPartial: PartialLoader | undefined, depth: number): TemplateNode[] {
+  checkPartialName(name);
+  if (depth >= MAX_PARTIAL_DEPTH) {
+    throw new Error(`Partials nested deeper than ${MAX_PARTIAL_DEPTH} levels at ${name}; is there a cycle?`);
+  }
+  const text = loadPartial?.(name);
+  if (text === undefined) throw new Error(`Partial not found: ${name}`);
+  const parsed = parseTemplate(text);
+  if (!parsed.ok) throw new Error(`Partial ${name}, ${parsed.error}`);
+  return parsed.nodes;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], loadPartial: PartialLoader | undefined, depth: number): string {
+  let out = "";
+  for (const node of nodes) {
+    if (node.type === "text") out += node.text;
+    else if (node.type === "var") {
+      const value = lookup(node.name, scopes);
+      out += node.filters.length === 0 ? stringify(value) : node.filters.reduce<unknown>(applyFilter, value);
+    } else if (node.type === "if") {
+      const pass = truthy(lookup(node.name, scopes)) !== node.negate;
+      out += renderNodes(pass ? node.body : node.inverse, scopes, loadPartial, depth);
+    } else if (node.type === "each") {
+      const list = lookup(node.name, scopes);
+      if (list !== undefined && list !== null && !Array.isArray(list)) throw new Error(`{{#each ${node.name}}} needs a list`);
+      if (!list || list.length === 0) out += renderNodes(node.inverse, scopes, loadPartial, depth);
+      else {
+        list.forEach((value, index) => {
+          out += renderNodes(node.body, [...scopes, { value, index, length: list.length }], loadPartial, depth);
+        });
+      }
+    } else {
+      const rendered = renderNodes(loadPartialNodes(node.name, loadPartial, depth), scopes, loadPartial, depth + 1);
+      out += node.indent ? rendered.replace(/^(?=.)/gm, node.indent) : rendered;
+    }
+  }
+  return out;
+}
+
+/**
+ * Render a template with its vars; partials come from `loadPartial`. Throws on syntax errors, missing partials
+ * and `{{#each}}` over something that is not a list — the same errors a compile-time preview reports.
+ */
+export function renderTemplate(text: string, vars: Record<string, unknown>, loadPartial?: PartialLoader): string {
+  const parsed = parseTemplate(text);
+  if (!parsed.ok) throw new Error(`Template ${parsed.error}`);
+  return renderNodes(parsed.nodes, [{ value: vars }], loadPartial, 0);
+}
+
+/** The vars a template (with its partials) reads, for checking them against what an op sets. Throws like renderTemplate. */
+export function analyzeTemplate(text: string, loadPartial?: PartialLoader): TemplateAnalysis {
+  const required = new Set<string>();
+  const optional = new Set<string>();
+  const partials = new Set<string>();
+  const use = (name: string, inLoop: boolean, conditional: boolean) => {
+    if (name === "." || name.startsWith("@")) return;
+    const head = name.split(".")[0];
+    (inLoop || conditional ? optional : required).add(head);
+  };
+  const walk = (nodes: TemplateNode[], inLoop: boolean, conditional: boolean, depth: number) => {
+    for (const node of nodes) {
+      if (node.type === "var") use(node.name, inLoop, conditional);
+      else if (node.type === "if") {
+        use(node.name, inLoop, true);
+        walk(node.body, inLoop, true, depth);
+        walk(node.inverse, inLoop, true, depth);
+      } else if (node.type === "each") {
+        use(node.name, inLoop, conditional);
+        walk(node.body, true, conditional, depth);
+        walk(node.inverse, inLoop, true, depth);
+      } else if (node.type === "partial") {
+        const nested = loadPartialNodes(node.name, loadPartial, depth);
+        partials.add(node.name);
+        walk(nested, inLoop, conditional, depth + 1);
+      }
+    }
+  };
+  const parsed = parseTemplate(text);
+  if (!parsed.ok) throw new Error(`Template ${parsed.error}`);
+  walk(parsed.nodes, false, false, 0);
+  return { required: [...required], optional: [...optional].filter((n) => !required.has(n)), partials: [...partials] };
+}
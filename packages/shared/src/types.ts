@@ -1,11 +1,27 @@
 export type Severity = "error" | "warn" | "info";
 
+export type SourcePosition = {
+  line: number; // 1-based
+  col: number; // 1-based
+  offset: number; // 0-based character offset into the source text
+};
+
+export type SourceRange = { start: SourcePosition; end: SourcePosition };
+
+// Edit of the spec at a JSON pointer; "add" appends to the list at path (creating it) unless already present
+export type SpecEdit = { op: "set" | "add"; path: string; value: unknown };
+
+export type DiagnosticFix = { description: string; edits: SpecEdit[] };
+
 export type Diagnostic = {
   code: string;
   severity: Severity;
   message: string;
-  path?: string;
+  path?: string; // JSON pointer into the spec, e.g. "/steps/2/actions/0/macro"
+  file?: string; // imported fragment that path/range refer to; unset for the root spec
+  range?: SourceRange;
   hint?: string;
+  fix?: DiagnosticFix; // mechanical repair `webspec lint --fix` can apply
 };
 
 export type WebSpecTargetId = string;
@@ -38,11 +54,14 @@ export type WebSpecEnsure =
   | { docContainsFuzzy: { path: string; text: string; threshold?: number; gate?: boolean } }
   | { artifactExists: { path: string } };
 
+// Strings, or JSON values that stack templates loop over ({{#each}}) and branch on ({{#if}})
+export type TemplateVars = Record<string, unknown>;
+
 export type WebSpecAction =
   | { run: string }
-  | { writeFile: { path: string; content?: string; template?: string; vars?: Record<string, string> } }
+  | { writeFile: { path: string; content?: string; template?: string; vars?: TemplateVars } }
   | { appendFile: { path: string; content: string } }
-  | { writeTemplate: { path: string; template: string; vars?: Record<string, string> } }
+  | { writeTemplate: { path: string; template: string; vars?: TemplateVars } }
   | { macro: { name: string; args?: Record<string, unknown> } };
 
 export type WebSpecStep = {
@@ -55,14 +74,36 @@ export type WebSpecStep = {
 };
 
 export type WebSpecIntentInvariant = { id: string; text: string };
-export type WebSpecIntentNonGoal = { id: string; text: string };
+// What a non-goal rules out, checked by the compiler against ops and by the runtime after RUN ops
+export type NonGoalRules = {
+  paths?: string[]; // globs no op may write
+  commands?: string[]; // argv patterns, as in commands.allowPrefixes
+  dependencies?: string[]; // package names; `*` wildcards, e.g. "@angular/*"
+};
+export type WebSpecIntentNonGoal = { id: string; text: string; forbid?: NonGoalRules };
 export type WebSpecIntent = {
   summary: string;
   invariants?: WebSpecIntentInvariant[];
   nonGoals?: WebSpecIntentNonGoal[];
 };
 
-export type WebSpecAssumption = { id: string; text: string; status: "verified" | "unverified" };
+export type WebSpecAssumption = {
+  id: string;
+  text: string;
+  // Hand-asserted; assumptions with verifiedBy are checked by the runtime before any step instead
+  status: "verified" | "unverified";
+  verifiedBy?: WebSpecEnsure[];
+};
+
+// An earlier answer to the same decision, kept when it is revised in place
+export type WebSpecDecisionRevision = {
+  answer: string;
+  rationale: string;
+  status?: WebSpecDecision["status"];
+  confidence?: number;
+  changedAt?: string; // ISO date
+  reason?: string; // why the answer changed
+};
 
 export type WebSpecDecision = {
   id: string;
@@ -70,9 +111,13 @@ export type WebSpecDecision = {
   question: string;
   answer: string;
   rationale: string;
-  status: "provisional" | "final";
+  // deprecated: retired without a replacement; superseded decisions point at theirs with supersededBy
+  status: "provisional" | "final" | "deprecated";
   confidence: number; // 0..1
   evidence?: string[];
+  supersedes?: string; // id of the decision this one replaces
+  supersededBy?: string; // filled in by buildDecisionTree from the replacing decision's `supersedes`
+  history?: WebSpecDecisionRevision[]; // oldest first
 };
 
 export type WebSpecDocsSection = {
@@ -111,6 +156,7 @@ export type WebSpecV2 = {
   lang: "webspec/v0.2";
   target: WebSpecTargetId;
   project: WebSpecProject;
+  imports?: string[]; // fragment paths, relative to the importing file
   workspace?: WebSpecWorkspace;
   ui?: WebSpecUI;
   routes?: WebSpecRoute[];
@@ -120,40 +166,78 @@ export type WebSpecV2 = {
   artifacts?: WebSpecArtifacts;
   assumptions?: WebSpecAssumption[];
   decisions?: WebSpecDecision[];
+  // Tightens the stack's decision policy; the stricter of the two applies
+  policy?: { decisions?: DecisionPolicy };
   steps?: WebSpecStep[];
   quality?: { gates: string[] };
 };
 
 export type WebSpec = WebSpecV1 | WebSpecV2;
 
+export type WebSpecFragment = {
+  imports?: string[];
+  intent?: Omit<WebSpecIntent, "summary">;
+  docs?: WebSpecDocs;
+  effects?: Pick<WebSpecEffects, "writeScopes">;
+  artifacts?: WebSpecArtifacts;
+  assumptions?: WebSpecAssumption[];
+  decisions?: WebSpecDecision[];
+  steps?: WebSpecStep[];
+};
+
 export type StackMacroArgType = "path" | "string" | "string[]" | "json";
 
+// Either a bare type (required arg) or a full declaration; a default makes the arg optional
+export type StackMacroArgDef =
+  | StackMacroArgType
+  | { type: StackMacroArgType; optional?: boolean; default?: unknown };
+
 export type StackMacroDef = {
-  args: Record<string, StackMacroArgType>;
+  args: Record<string, StackMacroArgDef>;
   expandsTo: Array<
     | { kind: "run"; cmd: string; cwd?: string }
     | { kind: "writeFile"; path: string; content: string }
     | { kind: "appendFile"; path: string; content: string }
     | { kind: "writeTemplate"; path: string; template: string; vars?: Record<string, string> }
+    // Calls another macro of the same manifest; string args are rendered with this macro's vars
+    | { kind: "macro"; name: string; args?: Record<string, unknown> }
   >;
 };
 
+export type DecisionPolicy = {
+  minConfidence?: number; // final decisions below it fail the compile
+  requireEvidenceForWrites?: boolean; // decisions referenced by steps that write files must list evidence
+};
+
+export type StackPolicy = {
+  // Share of written paths and commands that checks must verify; below it, unverified ops fail the compile
+  checkCoverage?: { minRatio: number };
+  decisions?: DecisionPolicy;
+};
+
 export type StackManifest = {
   id: string;
   presetVersion: number;
   displayName?: string;
   detect?: { mustExist?: string[]; mustNotExist?: string[] };
   effectsPolicy: { allowedWriteGlobs: string[]; deniedWriteGlobs?: string[] };
+  // allowPrefixes are argv prefix patterns: "pnpm" allows any pnpm command, "pnpm -C * add *" only adds
   commands: { allowPrefixes: string[]; denySubstrings?: string[] };
   semantics?: { routing?: Record<string, unknown> };
+  policy?: StackPolicy;
   macros?: Record<string, StackMacroDef>;
 };
 
-export type PlanOp =
+// Chain of stack macros an op was expanded from, outermost first (e.g. ["stack.setup_ui", "stack.shadcn_init"])
+export type PlanOpOrigin = { via?: string[] };
+
+export type PlanOp = (
   | { kind: "RUN"; cmd: string; cwd?: string }
   | { kind: "WRITE_FILE"; path: string; content: string }
   | { kind: "APPEND_FILE"; path: string; content: string }
-  | { kind: "WRITE_TEMPLATE"; path: string; template: string; vars?: Record<string, string> };
+  | { kind: "WRITE_TEMPLATE"; path: string; template: string; vars?: TemplateVars }
+) &
+  PlanOpOrigin;
 
 export type PlanCheck =
   | { kind: "file.exists"; path: string }
@@ -177,7 +261,7 @@ export type PlanStep = {
 
 export type DecisionTreeIndex = {
   roots: string[];
-  byId: Record<string, { parent: string | null; children: string[] }>;
+  byId: Record<string, { parent: string | null; children: string[]; supersededBy?: string }>;
 };
 
 export type DecisionTreeNode = WebSpecDecision & { children: string[] };
@@ -187,10 +271,26 @@ export type DecisionTree = {
   index: DecisionTreeIndex;
 };
 
+// Checks run in the pre-flight phase; an assumption without checks was asserted by hand
+export type PlanAssumption = { id: string; text: string; checks: PlanCheck[] };
+
+export type PlanNonGoal = { id: string; text: string; forbid: NonGoalRules };
+
+// Content hashes of what the plan was compiled from; the runtime refuses the plan when they no longer match
+export type PlanProvenance = {
+  manifest: string;
+  templates: Record<string, string>; // template path under the stack's templates/ dir → hash of its text
+  decisionTree?: string; // absent when no decision tree was loaded
+  digest: string; // over the whole plan, see planDigest
+};
+
 export type Plan = {
   lang: "webspec/plan-v0.1";
   target: WebSpecTargetId;
   presetVersion: number;
-  specHash: string;
+  specHash: string; // the spec with imports resolved, canonicalized: formatting and comments do not change it
+  provenance?: PlanProvenance;
+  assumptions?: PlanAssumption[];
+  nonGoals?: PlanNonGoal[]; // only non-goals with rules
   steps: PlanStep[];
 };
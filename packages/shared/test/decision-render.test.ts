@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { buildDecisionTree, renderDecisionTree } from "../src";
+import type { WebSpecDecision } from "../src";
+
+function decision(id: string, extra: Partial<WebSpecDecision> = {}): WebSpecDecision {
+  return { id, question: `Question ${id}?`, answer: `Answer ${id}`, rationale: "Because", status: "final", confidence: 0.9, ...extra };
+}
+
+const tree = buildDecisionTree([
+  decision("DEC-01", {
+    question: 'Which "build" tool?',
+    evidence: ["README.md#WebSpec (v0.2)"],
+    history: [{ answer: "Webpack", rationale: "Familiar | known", changedAt: "2026-01-10", reason: "Too slow" }]
+  }),
+  decision("DEC-02", { parent: "DEC-01", status: "provisional", confidence: 0.5 }),
+  decision("DEC-03", { supersedes: "DEC-02", parent: "DEC-01" })
+]);
+
+describe("decision tree rendering", () => {
+  it("renders an ADR-style Markdown record", () => {
+    const md = renderDecisionTree(tree, "md");
+    expect(md).toContain('## DEC-01: Which "build" tool?\n\n- **Answer:** Answer DEC-01\n- **Status:** final (confidence 0.9)');
+    expect(md).toContain("- **Children:** DEC-02, DEC-03");
+    expect(md).toContain("### Evidence\n\n- README.md#WebSpec (v0.2)");
+    expect(md).toContain("| 2026-01-10 | Webpack | Familiar \\| known |  | Too slow |");
+    expect(md).toContain("- **Superseded by:** DEC-03");
+    expect(md.indexOf("## DEC-02")).toBeLessThan(md.indexOf("## DEC-03"));
+  });
+
+  it("renders a Mermaid flowchart with parent and supersession edges", () => {
+    expect(renderDecisionTree(tree, "mermaid").split("\n")).toEqual([
+      "flowchart TD",
+      '  d0["DEC-01: Which #quot;build#quot; tool?<br/>Answer DEC-01"]',
+      '  d1["DEC-02: Question DEC-02?<br/>Answer DEC-02"]',
+      '  d2["DEC-03: Question DEC-03?<br/>Answer DEC-03"]',
+      "  d0 --> d1",
+      "  d0 --> d2",
+      "  d2 -.->|supersedes| d1",
+      "  classDef provisional stroke-dasharray: 5 5",
+      "  classDef deprecated fill:#eee,color:#888",
+      "  class d1 deprecated",
+      ""
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDecision,
+  buildDecisionTree,
+  currentDecision,
+  decisionList,
+  deprecateDecision,
+  finalizeDecision,
+  importDecisions,
+  moveDecision,
+  removeDecision
+} from "../src";
+import type { WebSpecDecision } from "../src";
+
+function decision(id: string, extra: Partial<WebSpecDecision> = {}): WebSpecDecision {
+  return { id, question: "Which tool?", answer: id, rationale: "r", status: "final", confidence: 0.9, ...extra };
+}
+
+describe("decision tree", () => {
+  it("links supersession chains from either side", () => {
+    const tree = buildDecisionTree([
+      decision("DEC-01", { status: "deprecated" }),
+      decision("DEC-02", { supersedes: "DEC-01" }),
+      decision("DEC-03", { supersededBy: "DEC-04" }),
+      decision("DEC-04", { history: [{ answer: "Webpack", rationale: "Familiar", changedAt: "2026-01-10" }] })
+    ]);
+    expect(tree.nodes["DEC-01"].supersededBy).toBe("DEC-02");
+    expect(tree.nodes["DEC-04"].supersedes).toBe("DEC-03");
+    expect(tree.index.byId["DEC-03"]).toEqual({ parent: null, children: [], supersededBy: "DEC-04" });
+    expect(currentDecision(tree, "DEC-01")?.id).toBe("DEC-02");
+  });
+
+  it("rejects broken supersession chains", () => {
+    expect(() => buildDecisionTree([decision("DEC-01", { supersedes: "DEC-09" })])).toThrow("missing decision");
+    expect(() =>
+      buildDecisionTree([decision("DEC-01"), decision("DEC-02", { supersedes: "DEC-01" }), decision("DEC-03", { supersedes: "DEC-01" })])
+    ).toThrow('superseded by both "DEC-02" and "DEC-03"');
+    expect(() =>
+      buildDecisionTree([decision("DEC-01", { supersedes: "DEC-02" }), decision("DEC-02", { supersedes: "DEC-01" })])
+    ).toThrow("supersession cycle");
+  });
+
+  describe("edits", () => {
+    const base = () => buildDecisionTree([decision("DEC-01"), decision("DEC-02", { parent: "DEC-01", status: "provisional" })]);
+
+    it("keeps the index in sync through add, move and remove", () => {
+      let tree = addDecision(base(), decision("DEC-03", { parent: "DEC-02" }));
+      expect(tree.index.byId["DEC-02"].children).toEqual(["DEC-03"]);
+      tree = moveDecision(tree, "DEC-03", null);
+      expect(tree.index.roots).toEqual(["DEC-01", "DEC-03"]);
+      tree = removeDecision(tree, "DEC-03");
+      expect(Object.keys(tree.index.byId)).toEqual(["DEC-01", "DEC-02"]);
+      expect(decisionList(tree)[1]).not.toHaveProperty("children");
+    });
+
+    it("rejects edits that break the tree", () => {
+      expect(() => addDecision(base(), decision("DEC-01"))).toThrow("already exists");
+      expect(() => moveDecision(base(), "DEC-01", "DEC-02")).toThrow("cycle");
+      expect(() => moveDecision(base(), "DEC-02", "DEC-09")).toThrow("missing parent");
+      expect(() => removeDecision(base(), "DEC-01")).toThrow("has children: DEC-02");
+      expect(() => finalizeDecision(base(), "DEC-09")).toThrow("Unknown decision");
+    });
+
+    it("finalizes provisional decisions, keeping the provisional record in history", () => {
+      const tree = finalizeDecision(base(), "DEC-02", 0.75, "2026-03-01");
+      expect(tree.nodes["DEC-02"]).toMatchObject({ status: "final", confidence: 0.75 });
+      expect(tree.nodes["DEC-02"].history).toEqual([
+        {
+          answer: "DEC-02",
+          rationale: "r",
+          status: "provisional",
+          confidence: 0.9,
+          changedAt: "2026-03-01",
+          reason: "finalized"
+        }
+      ]);
+    });
+
+    it("deprecates decisions that no longer hold, once", () => {
+      const tree = deprecateDecision(base(), "DEC-01", "Dropped", "2026-03-02");
+      expect(tree.nodes["DEC-01"].status).toBe("deprecated");
+      expect(tree.nodes["DEC-01"].history).toEqual([
+        { answer: "DEC-01", rationale: "r", status: "final", confidence: 0.9, changedAt: "2026-03-02", reason: "Dropped" }
+      ]);
+      expect(() => deprecateDecision(tree, "DEC-01")).toThrow("is deprecated");
+      expect(() => finalizeDecision(tree, "DEC-01")).toThrow("is deprecated");
+    });
+
+    it("imports new decisions and reports differing ones", () => {
+      const { tree, added, conflicting } = importDecisions(base(), [
+        { ...decision("DEC-01"), parent: undefined },
+        decision("DEC-02", { parent: "DEC-01" }),
+        decision("DEC-04", { parent: "DEC-01" })
+      ]);
+      expect(added).toEqual(["DEC-04"]);
+      expect(conflicting).toEqual(["DEC-02"]);
+      expect(tree.nodes["DEC-02"].status).toBe("provisional");
+      expect(tree.index.byId["DEC-01"].children).toEqual(["DEC-02", "DEC-04"]);
+    });
+  });
+});
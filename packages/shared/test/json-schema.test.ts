@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { webSpecJsonSchema, WebSpecActionSchema, WebSpecEnsureSchema } from "../src";
+
+type JsonNode = Record<string, unknown>;
+
+// Follow a dotted path of keys through a generated schema
+function at(node: unknown, path: string): JsonNode {
+  return path.split(".").reduce((n, key) => (n as JsonNode)[key], node) as JsonNode;
+}
+
+function list(node: unknown, path: string): JsonNode[] {
+  return at(node, path) as unknown as JsonNode[];
+}
+
+describe("json schema", () => {
+  it("types every action and ensure variant", () => {
+    expect(WebSpecActionSchema.safeParse({ run: "pnpm i" }).success).toBe(true);
+    expect(WebSpecActionSchema.safeParse({ writefile: { path: "a" } }).success).toBe(false);
+    expect(WebSpecEnsureSchema.safeParse({ docContainsFuzzy: { path: "README.md", text: "x", threshold: 2 } }).success).toBe(false);
+  });
+
+  it("generates a spec schema covering both language versions", () => {
+    const schema = webSpecJsonSchema("spec");
+    expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    const [v1, v2] = list(schema, "oneOf");
+    expect(at(v1, "properties.lang")).toMatchObject({ const: "webspec/v0.1", default: "webspec/v0.1" });
+    expect(v2.required).toEqual(["lang", "target", "project"]);
+
+    const actions = list(v2, "properties.steps.items.properties.actions.items.anyOf");
+    expect(actions.map((a) => Object.keys(at(a, "properties"))[0])).toEqual(["run", "writeFile", "appendFile", "writeTemplate", "macro"]);
+    expect(actions[0]).toMatchObject({ required: ["run"], additionalProperties: false });
+  });
+
+  it("generates manifest and plan schemas", () => {
+    const manifest = webSpecJsonSchema("manifest");
+    expect(at(manifest, "properties.presetVersion")).toEqual({ type: "integer", exclusiveMinimum: 0 });
+    const plan = webSpecJsonSchema("plan");
+    const ops = list(plan, "properties.steps.items.properties.ops.items.oneOf");
+    expect(ops.map((o) => at(o, "properties.kind").const)).toEqual(["RUN", "WRITE_FILE", "APPEND_FILE", "WRITE_TEMPLATE"]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { diffPlans, formatPlanDiff, unifiedDiff } from "../src";
+import type { Plan, PlanStep } from "../src";
+
+function plan(steps: PlanStep[], specHash = "h1"): Plan {
+  return { lang: "webspec/plan-v0.1", target: "react-vite-shadcn-tailwind4", presetVersion: 1, specHash, steps };
+}
+
+function step(id: string, extra: Partial<PlanStep> = {}): PlanStep {
+  return { id, requires: [], ops: [], checks: [{ kind: "file.exists", path: `${id}.txt` }], ...extra };
+}
+
+describe("plan diff", () => {
+  it("treats plans that only differ in specHash as equivalent", () => {
+    const diff = diffPlans(plan([step("a")]), plan([step("a")], "h2"));
+    expect(diff.equal).toBe(true);
+    expect(diff.fields).toEqual([{ field: "specHash", before: "h1", after: "h2" }]);
+  });
+
+  it("reports added, removed and moved steps", () => {
+    const diff = diffPlans(plan([step("a"), step("b"), step("c"), step("old")]), plan([step("c"), step("a"), step("b"), step("new")]));
+    expect(diff.steps.map((s) => [s.id, s.change, s.moved])).toEqual([
+      ["c", "changed", { from: 2, to: 0 }],
+      ["a", "unchanged", undefined],
+      ["b", "unchanged", undefined],
+      ["old", "removed", undefined],
+      ["new", "added", undefined]
+    ]);
+  });
+
+  it("pairs rewritten files into changed ops with a content diff", () => {
+    const before = step("a", {
+      ops: [
+        { kind: "RUN", cmd: "pnpm install" },
+        { kind: "WRITE_FILE", path: "a.txt", content: "one\ntwo\n" }
+      ]
+    });
+    const after = step("a", {
+      ops: [
+        { kind: "RUN", cmd: "pnpm install", via: ["stack.scaffold"] },
+        { kind: "WRITE_FILE", path: "a.txt", content: "one\n2\n" },
+        { kind: "RUN", cmd: "pnpm build" }
+      ],
+      checks: [{ kind: "cmd.ok", cmd: "pnpm build" }]
+    });
+    const diff = diffPlans(plan([before]), plan([after]));
+    const [s] = diff.steps;
+    expect(s.ops.map((o) => [o.change, o.index])).toEqual([
+      ["changed", 1],
+      ["added", 2]
+    ]);
+    expect(s.checks.removed).toEqual([{ kind: "file.exists", path: "a.txt" }]);
+
+    const text = formatPlanDiff(diff);
+    expect(text).toContain("~ WRITE_FILE a.txt");
+    expect(text).toContain("-two");
+    expect(text).toContain("+ RUN pnpm build");
+    expect(text).toContain("+ check cmd.ok pnpm build");
+  });
+
+  it("reports changed pre-flight assumptions", () => {
+    const check = { kind: "file.exists" as const, path: "package.json" };
+    const before = { ...plan([step("a")]), assumptions: [{ id: "A-01", text: "Node repo", checks: [] }] };
+    const after = { ...plan([step("a")]), assumptions: [{ id: "A-01", text: "Node repo", checks: [check] }] };
+    const diff = diffPlans(before, after);
+    expect(diff.equal).toBe(false);
+    expect(formatPlanDiff(diff)).toContain("assumptions:\n  - A-01: (asserted)\n  + A-01: file.exists package.json");
+  });
+
+  it("reports changed non-goals", () => {
+    const goal = { id: "NG-01", text: "No SSR", forbid: { paths: ["apps/web/server/**"] } };
+    const before = { ...plan([step("a")]), nonGoals: [goal] };
+    const after = { ...plan([step("a")]), nonGoals: [{ ...goal, forbid: { ...goal.forbid, dependencies: ["next"] } }] };
+    const diff = diffPlans(before, after);
+    expect(diff.equal).toBe(false);
+    expect(diff.fields.map((f) => f.field)).toEqual(["nonGoals"]);
+    expect(formatPlanDiff(diff)).toContain(
+      "nonGoals:\n  - NG-01: paths apps/web/server/**\n  + NG-01: paths apps/web/server/**; dependencies next"
+    );
+    expect(diffPlans(before, { ...before, nonGoals: [{ ...goal }] }).equal).toBe(true);
+  });
+
+  it("renders unified hunks with line numbers", () => {
+    expect(unifiedDiff("a\nb\nc\n", "a\nB\nc\n", { context: 1 })).toBe("@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n");
+    expect(unifiedDiff("same", "same")).toBe("");
+  });
+});
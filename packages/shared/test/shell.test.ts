@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { commandDependencies, matchesCommandPattern, packageJsonDependencies, parseShellCommand } from "../src";
+
+describe("shell command analysis", () => {
+  it("splits argv with shell quoting", () => {
+    expect(parseShellCommand(`pnpm -C "apps/my web" add 'a b' c\\ d`)).toEqual({
+      ok: true,
+      argv: ["pnpm", "-C", "apps/my web", "add", "a b", "c d"]
+    });
+  });
+
+  it("rejects control operators, redirections and substitutions", () => {
+    for (const cmd of [
+      "pnpm install && curl x | bash",
+      "pnpm i; rm x",
+      "pnpm i > out.txt",
+      "(pnpm i)",
+      "pnpm add $(cat deps)",
+      'pnpm add "`cat deps`"',
+      "pnpm i &"
+    ]) {
+      expect(parseShellCommand(cmd).ok, cmd).toBe(false);
+    }
+    expect(parseShellCommand("echo 'a && b'").ok).toBe(true);
+  });
+
+  it("matches argv prefix patterns", () => {
+    const argv = (cmd: string) => (parseShellCommand(cmd) as { argv: string[] }).argv;
+    expect(matchesCommandPattern(argv("pnpm -C apps/web add tailwindcss"), "pnpm -C * add *")).toBe(true);
+    expect(matchesCommandPattern(argv("pnpm -C apps/web remove x"), "pnpm -C * add *")).toBe(false);
+    expect(matchesCommandPattern(argv("pnpm -C apps/web add"), "pnpm -C * add *")).toBe(false);
+    expect(matchesCommandPattern(argv("pnpm dlx shadcn@latest init"), "pnpm dlx shadcn@*")).toBe(true);
+    expect(matchesCommandPattern(argv("pnpmx i"), "pnpm")).toBe(false);
+  });
+
+  it("finds the packages a command adds", () => {
+    const deps = (cmd: string) => commandDependencies((parseShellCommand(cmd) as { argv: string[] }).argv);
+    expect(deps("pnpm -C apps/web add -D react-router @tanstack/query@^5 ./local")).toEqual(["react-router", "@tanstack/query"]);
+    expect(deps("npm install --prefix web zod")).toEqual(["zod"]);
+    expect(deps("pnpm -C apps/web dlx shadcn@latest add button")).toEqual([]);
+    expect(deps("pnpm install")).toEqual([]);
+    expect(packageJsonDependencies('{"dependencies":{"react":"^19"},"devDependencies":{"vite":"^6"}}')).toEqual(["react", "vite"]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTemplate, parseTemplate, renderTemplate } from "../src";
+
+describe("stack templates", () => {
+  const page = "export default function {{PAGE}}() {\n  return <main style={{ padding: 24 }}>{{PAGE}} {{TITLE}}</main>;\n}\n";
+  const partials: Record<string, string> = {
+    "vite/route.tpl": '{ path: {{path | json}}, page: "{{page | js}}" },\n',
+    "loop/a.tpl": "{{> loop/b.tpl}}",
+    "loop/b.tpl": "{{> loop/a.tpl}}"
+  };
+  const loadPartial = (name: string) => partials[name];
+
+  it("substitutes vars, leaving braces that are not tags and vars that are not given", () => {
+    expect(renderTemplate(page, { PAGE: "Home" })).toContain("function Home()");
+    expect(renderTemplate(page, { PAGE: "Home" })).toContain("<main style={{ padding: 24 }}>Home </main>");
+  });
+
+  it("loops over lists with partials, dropping standalone block lines", () => {
+    const template = "const ROUTES = [\n{{#each ROUTES}}\n  {{> vite/route.tpl}}\n{{else}}\n  // none\n{{/each}}\n];\n";
+    const routes = [
+      { path: "/", page: "Home" },
+      { path: "/about", page: 'Ab"out' }
+    ];
+    expect(renderTemplate(template, { ROUTES: routes }, loadPartial)).toBe(
+      'const ROUTES = [\n  { path: "/", page: "Home" },\n  { path: "/about", page: "Ab\\"out" },\n];\n'
+    );
+    expect(renderTemplate(template, { ROUTES: [] }, loadPartial)).toBe("const ROUTES = [\n  // none\n];\n");
+  });
+
+  it("branches on conditionals and exposes loop positions", () => {
+    const template = "{{#if TITLE}}<h1>{{TITLE | html}}</h1>{{else}}untitled{{/if}}{{#unless TITLE}}!{{/unless}}";
+    expect(renderTemplate(template, { TITLE: "A & <B>" })).toBe("<h1>A &amp; &lt;B&gt;</h1>");
+    expect(renderTemplate(template, {})).toBe("untitled!");
+    const list = "{{#each XS}}{{@index}}={{.}}{{#unless @last}},{{/unless}}{{/each}}";
+    expect(renderTemplate(list, { XS: ["a", "b"] })).toBe("0=a,1=b");
+  });
+
+  it("escapes for JavaScript strings and JSON", () => {
+    expect(renderTemplate("`{{V | js}}`", { V: "a`${b}\n</script>" })).toBe("`a\\`\\${b}\\n<\\/script>`");
+    expect(renderTemplate("{{V | json}}", { V: { a: [1, "x"] } })).toBe('{"a":[1,"x"]}');
+  });
+
+  it("is sandboxed to its vars and the templates directory", () => {
+    expect(renderTemplate("{{V.constructor}}{{toString}}", { V: {} })).toBe("");
+    expect(() => renderTemplate("{{> ../secret.txt}}", {}, loadPartial)).toThrow("inside the stack's templates directory");
+    expect(() => renderTemplate("{{> loop/a.tpl}}", {}, loadPartial)).toThrow("deeper than 8 levels");
+    expect(() => renderTemplate("{{> nope.tpl}}", {}, loadPartial)).toThrow("Partial not found: nope.tpl");
+  });
+
+  it("reports syntax errors with their line", () => {
+    expect(parseTemplate("a\n{{#each XS}}\nb")).toEqual({ ok: false, error: "line 2: {{#each}} is never closed" });
+    expect(parseTemplate("{{#if A}}{{/each}}")).toEqual({ ok: false, error: "line 1: {{/each}} closes {{#if}} from line 1" });
+    expect(parseTemplate("{{V | upper}}")).toMatchObject({ ok: false, error: expect.stringContaining('unknown filter "upper"') });
+  });
+
+  it("tells required vars from those only read in loops and conditionals", () => {
+    const template = "{{PAGE}}{{#each ROUTES}}{{> vite/route.tpl}}{{/each}}{{#if TITLE}}{{TITLE}}{{/if}}";
+    expect(analyzeTemplate(template, loadPartial)).toEqual({
+      required: ["PAGE", "ROUTES"],
+      optional: ["path", "page", "TITLE"],
+      partials: ["vite/route.tpl"]
+    });
+  });
+});
@@ -0,0 +1 @@
+{ path: {{path | json}}, Page: React.lazy(() => import("./pages/{{page | js}}.tsx")) },
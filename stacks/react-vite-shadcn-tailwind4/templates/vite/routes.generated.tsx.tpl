@@ -1,25 +1,24 @@
 /**
  * AUTO-GENERATED by WebSpec (do not edit by hand)
- * ROUTES_JSON: {{ROUTES_JSON}}
  */
 import React from "react";
 import { createBrowserRouter, RouterProvider } from "react-router-dom";
 
-type RouteDef = { path: string; page: string };
+type RouteDef = { path: string; Page: React.LazyExoticComponent<React.ComponentType> };
 
-const ROUTES: RouteDef[] = JSON.parse(`{{ROUTES_JSON}}`);
-
-function lazyPage(page: string) {
-  return React.lazy(() => import(`./pages/${page}.tsx`));
-}
+const ROUTES: RouteDef[] = [
+{{#each ROUTES}}
+  {{> vite/route.tpl}}
+{{/each}}
+];
 
 export function AppRouter() {
   const router = createBrowserRouter(
-    ROUTES.map((r) => ({
-      path: r.path,
+    ROUTES.map(({ path, Page }) => ({
+      path,
       element: (
         <React.Suspense fallback={<div style={{ padding: 16 }}>Loading…</div>}>
-          {React.createElement(lazyPage(r.page))}
+          <Page />
         </React.Suspense>
       )
     }))